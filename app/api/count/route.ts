@@ -0,0 +1,35 @@
+// POST /api/count?enumerate=true
+//
+// The body is a setup file. Answers the pre-run analysis the app shows: the raw size of the
+// search space and the number of combinations within the total band and group limits, exact
+// unless other constraint kinds are present. `enumerate` walks the whole space instead for
+// an exact count of valid combinations, with what ruled the others out, up to
+// API_STEP_LIMIT search steps (a 422 beyond).
+
+import { NextResponse } from 'next/server';
+import { analyzeSetup } from '../../../lib/analysis';
+import { errorResponse, readRunPlan, readStepLimit } from '../../../lib/apiRequest';
+import { toAnalysisInput } from '../../../lib/runPlan';
+import { countCombinations } from '../../../lib/serverRun';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: Request) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const enumerate = ['true', '1'].includes(params.get('enumerate') ?? '');
+    const { setup, plan } = await readRunPlan(request);
+    const analysis = analyzeSetup(toAnalysisInput(plan.search, setup.inputUnit));
+    if (!enumerate) return NextResponse.json(analysis);
+    const counted = await countCombinations(plan, readStepLimit(), request.signal);
+    return NextResponse.json({
+      raw: analysis.raw,
+      valid: counted.valid,
+      exact: true,
+      issues: analysis.issues,
+      rejections: counted.rejections,
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
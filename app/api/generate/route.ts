@@ -0,0 +1,41 @@
+// POST /api/generate?format=ndjson|csv|json&unit=ratio|percent&offset=0&limit=1000
+//
+// The body is a setup file; the response holds one page of valid combinations in the
+// order a one-worker run finds them. A page shorter than `limit` is the last one. Ranked
+// setups page through their kept formulas, best first, with the score as the last column.
+// A page that takes more than API_STEP_LIMIT search steps is answered with a 422.
+
+import {
+  contentTypes,
+  errorResponse,
+  readPageQuery,
+  readRunPlan,
+  readStepLimit,
+} from '../../../lib/apiRequest';
+import { createRowStream } from '../../../lib/serverRun';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: Request) {
+  try {
+    const page = readPageQuery(new URL(request.url).searchParams);
+    const { setup, plan } = await readRunPlan(request);
+    const stream = await createRowStream(
+      plan,
+      setup.components.map((comp) => comp.name),
+      page,
+      readStepLimit(),
+      request.signal
+    );
+    return new Response(stream, {
+      headers: {
+        'Content-Type': contentTypes[page.format],
+        'Cache-Control': 'no-store',
+        'X-Page-Offset': String(page.offset),
+        'X-Page-Limit': String(page.limit),
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
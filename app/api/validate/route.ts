@@ -0,0 +1,31 @@
+// POST /api/validate
+//
+// The body is a setup file. Reports what loading it would change (the same report the app
+// shows on import), the first problem that keeps it from running and the limits no
+// combination can meet. Only a body that is not a setup file at all is a 400.
+
+import { NextResponse } from 'next/server';
+import { findFeasibilityIssues } from '../../../lib/analysis';
+import { errorResponse, readSetupBody } from '../../../lib/apiRequest';
+import { buildRunPlan, findSetupProblem, toAnalysisInput } from '../../../lib/runPlan';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: Request) {
+  try {
+    const { setup, version, report } = await readSetupBody(request);
+    const problem = findSetupProblem(setup);
+    const issues = problem
+      ? []
+      : findFeasibilityIssues(toAnalysisInput(buildRunPlan(setup).search, setup.inputUnit));
+    return NextResponse.json({
+      valid: problem === null && issues.length === 0,
+      version,
+      report,
+      problem,
+      issues,
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,275 @@
+// Command line generation from an exported setup file, for scripts and batch jobs:
+//
+//   npm run build:cli
+//   node dist/cli/cli/generate.js combination-setup.json -o combinations.csv
+//
+// Rows stream to stdout or a file as CSV, JSON or NDJSON. The search space is split into
+// prefix tasks shared by a pool of worker threads, exactly as the app does with web workers.
+
+import { createWriteStream, readFileSync } from 'fs';
+import { availableParallelism } from 'os';
+import { join } from 'path';
+import { Worker } from 'worker_threads';
+import {
+  createRowWriter,
+  mergeRanked,
+  OutputFormat,
+  planTasks,
+  readRow,
+  taskPrefix,
+} from '../lib/engine';
+import { buildRunPlan, findSetupProblem } from '../lib/runPlan';
+import { Rejection, SearchMessage } from '../lib/search';
+import { parseSetup, SetupSchemaError } from '../lib/setupSchema';
+
+const usage = `Usage: generate <setup.json> [options]
+
+Options:
+  -o, --output <file>     Write rows to a file instead of stdout
+  -f, --format <format>   csv, json or ndjson (default: from the output extension, else csv)
+  -u, --unit <unit>       ratio or percent (default: ratio)
+  -w, --workers <count>   Worker threads (default: available cores)
+  -l, --limit <rows>      Stop after this many rows
+  -h, --help              Show this help
+`;
+
+type CliOptions = {
+  setupPath: string;
+  output: string | null;
+  format: OutputFormat;
+  unit: 'ratio' | 'percent';
+  workers: number;
+  limit: number;
+};
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+const positiveInteger = (value: string | undefined, option: string) => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new UsageError(`${option} needs a whole number of at least 1.`);
+  }
+  return parsed;
+};
+
+const formatFromExtension = (output: string | null): OutputFormat => {
+  if (output && /\.ndjson$/i.test(output)) return 'ndjson';
+  if (output && /\.json$/i.test(output)) return 'json';
+  return 'csv';
+};
+
+const parseArgs = (args: string[]): CliOptions | null => {
+  let setupPath: string | null = null;
+  let output: string | null = null;
+  let format: OutputFormat | null = null;
+  let unit: 'ratio' | 'percent' = 'ratio';
+  let workers = Math.max(1, availableParallelism());
+  let limit = Number.MAX_SAFE_INTEGER;
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    const value = () => {
+      i += 1;
+      if (i >= args.length) throw new UsageError(`${arg} needs a value.`);
+      return args[i];
+    };
+    if (arg === '-h' || arg === '--help') return null;
+    else if (arg === '-o' || arg === '--output') output = value();
+    else if (arg === '-f' || arg === '--format') {
+      const next = value();
+      if (next !== 'csv' && next !== 'json' && next !== 'ndjson') {
+        throw new UsageError('--format is csv, json or ndjson.');
+      }
+      format = next;
+    } else if (arg === '-u' || arg === '--unit') {
+      const next = value();
+      if (next !== 'ratio' && next !== 'percent') {
+        throw new UsageError('--unit is ratio or percent.');
+      }
+      unit = next;
+    } else if (arg === '-w' || arg === '--workers') workers = positiveInteger(value(), arg);
+    else if (arg === '-l' || arg === '--limit') limit = positiveInteger(value(), arg);
+    else if (arg.startsWith('-')) throw new UsageError(`Unknown option ${arg}.`);
+    else if (setupPath === null) setupPath = arg;
+    else throw new UsageError(`Unexpected argument ${arg}.`);
+  }
+  if (setupPath === null) throw new UsageError('Missing the setup file.');
+  return {
+    setupPath,
+    output,
+    format: format ?? formatFromExtension(output),
+    unit,
+    workers,
+    limit,
+  };
+};
+
+const run = (options: CliOptions) =>
+  new Promise<void>((resolve, reject) => {
+    const { setup, report } = parseSetup(readFileSync(options.setupPath, 'utf8'));
+    for (const entry of report) {
+      process.stderr.write(`Setup ${entry.action}: ${entry.path}: ${entry.message}\n`);
+    }
+    const problem = findSetupProblem(setup);
+    if (problem) throw new Error(problem);
+
+    const plan = buildRunPlan(setup);
+    const { columnSource, ranges, search } = plan;
+    const { prefixLength, taskCount } = planTasks(plan, options.workers);
+    const workerCount = Math.min(options.workers, taskCount);
+    const ranked = search.optimization;
+    const out = options.output ? createWriteStream(options.output) : process.stdout;
+    const writer = createRowWriter(
+      options.format,
+      setup.components.map((comp) => comp.name),
+      options.unit,
+      ranked ? plan.objectiveLabel : null,
+      (chunk) => out.write(chunk)
+    );
+    const startedAt = Date.now();
+    const rankedRows: number[][] = [];
+    const rejections = new Map<string, Rejection>();
+    const workers: Worker[] = [];
+    const waiting: Worker[] = [];
+    let nextTask = 0;
+    let written = 0;
+    let valid = 0;
+    let finished = 0;
+    let stopped = false;
+
+    // Tasks are only handed out while the output keeps up, so rows never pile up in memory
+    const dispatch = (worker: Worker) => {
+      if (out.writableNeedDrain) {
+        if (waiting.length === 0) out.once('drain', () => waiting.splice(0).forEach(dispatch));
+        waiting.push(worker);
+        return;
+      }
+      if (nextTask >= taskCount || stopped) {
+        worker.postMessage({ type: 'finish' });
+        return;
+      }
+      worker.postMessage({
+        type: 'task',
+        taskId: nextTask,
+        prefix: taskPrefix(ranges, prefixLength, nextTask),
+      });
+      nextTask += 1;
+    };
+
+    const complete = () => {
+      if (ranked) {
+        const rows = mergeRanked(rankedRows, ranked.direction, ranked.limit);
+        writer.writeRows(rows.slice(0, options.limit));
+      }
+      const rowCount = writer.end();
+      const summary = [
+        `${rowCount.toLocaleString()} rows written`,
+        `${valid.toLocaleString()} valid combinations${stopped ? ' found before the limit' : ''}`,
+        `${((Date.now() - startedAt) / 1000).toFixed(2)} s`,
+      ];
+      process.stderr.write(`${summary.join(', ')}\n`);
+      if (valid === 0 && rejections.size > 0) {
+        process.stderr.write('Most rejections:\n');
+        Array.from(rejections.values())
+          .sort((a, b) => b.leaves - a.leaves)
+          .slice(0, 5)
+          .forEach((tally) =>
+            process.stderr.write(`  ${tally.reason}: ${tally.leaves.toLocaleString()}\n`)
+          );
+      }
+      if (out === process.stdout) {
+        resolve();
+        return;
+      }
+      out.end(() => resolve());
+    };
+
+    const onMessage = (worker: Worker, message: SearchMessage) => {
+      if (message.type === 'taskDone') {
+        valid += message.valid;
+        dispatch(worker);
+      }
+      if (message.type === 'results') {
+        const rows = Array.from({ length: message.rowCount }, (_, index) =>
+          readRow(message.rows, index, columnSource)
+        );
+        if (message.scores) {
+          rows.forEach((row, index) => rankedRows.push([...row, message.scores[index]]));
+        } else if (!stopped) {
+          const take = rows.slice(0, options.limit - written);
+          writer.writeRows(take);
+          written += take.length;
+          // Enough rows: every worker ends its current task early and gets no more
+          if (written >= options.limit) {
+            stopped = true;
+            workers.forEach((other) => other.postMessage({ type: 'stop' }));
+          }
+        }
+      }
+      if (message.type === 'done') {
+        for (const rejection of message.rejections) {
+          const tally = rejections.get(rejection.reason);
+          if (tally) {
+            tally.leaves += rejection.leaves;
+            tally.prunes += rejection.prunes;
+          } else {
+            rejections.set(rejection.reason, { ...rejection });
+          }
+        }
+        worker.terminate();
+        finished += 1;
+        if (finished === workerCount) complete();
+      }
+    };
+
+    // A reader that goes away early (`| head`) ends the run quietly, anything else is an error
+    out.on('error', (error: NodeJS.ErrnoException) => {
+      workers.forEach((worker) => worker.terminate());
+      if (error.code === 'EPIPE') resolve();
+      else reject(error);
+    });
+
+    for (let workerId = 0; workerId < workerCount; workerId += 1) {
+      const worker = new Worker(join(__dirname, 'generateWorker.js'));
+      workers.push(worker);
+      worker.on('message', (message: SearchMessage) => onMessage(worker, message));
+      worker.on('error', (error) => {
+        workers.forEach((other) => other.terminate());
+        reject(error);
+      });
+      worker.postMessage({
+        type: 'start',
+        payload: {
+          ...search,
+          maxResults: options.limit,
+          workerId,
+        },
+      });
+      dispatch(worker);
+    }
+  });
+
+const main = async () => {
+  try {
+    const options = parseArgs(process.argv.slice(2));
+    if (!options) {
+      process.stdout.write(usage);
+      return;
+    }
+    await run(options);
+  } catch (error) {
+    if (error instanceof UsageError || error instanceof SetupSchemaError) {
+      process.stderr.write(`${error.message}\n`);
+      if (error instanceof UsageError) process.stderr.write(`\n${usage}`);
+    } else {
+      process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+    }
+    process.exitCode = 1;
+  }
+};
+
+main();
@@ -0,0 +1,53 @@
+// Worker thread of the CLI: the same search the app's web workers run, walking each task it
+// is handed in slices so that a `stop` from the main thread (once --limit rows are written)
+// ends the walk early.
+
+import { parentPort } from 'worker_threads';
+import { createSearch, SearchMessage, SearchPayload } from '../lib/search';
+
+type WorkerMessage =
+  | { type: 'start'; payload: SearchPayload }
+  | { type: 'task'; taskId: number; prefix: number[] }
+  | { type: 'finish' }
+  | { type: 'stop' };
+
+const port = parentPort;
+if (!port) throw new Error('generateWorker must run as a worker thread.');
+
+const post = (message: SearchMessage) => {
+  if (message.type !== 'results') {
+    port.postMessage(message);
+    return;
+  }
+  const buffers = message.scores
+    ? [message.rows.buffer, message.scores.buffer]
+    : [message.rows.buffer];
+  port.postMessage(message, buffers as ArrayBuffer[]);
+};
+
+// Steps walked between two checks for incoming messages
+const sliceSteps = 100000;
+let search: ReturnType<typeof createSearch> | null = null;
+
+// Rows found in a slice are handed over right away: under a small limit the batch would
+// otherwise only fill, and the main thread only learn the limit was reached, at the task end
+const walkSlice = () => {
+  if (!search || search.walk(sliceSteps)) return;
+  search.flush();
+  setImmediate(walkSlice);
+};
+
+port.on('message', (data: WorkerMessage) => {
+  if (data.type === 'start') {
+    search = createSearch(data.payload, post);
+    return;
+  }
+  if (!search) return;
+  // The walk ends at its next step and reports the task done
+  if (data.type === 'stop') search.stop();
+  if (data.type === 'task') {
+    search.startTask(data.taskId, data.prefix);
+    walkSlice();
+  }
+  if (data.type === 'finish') search.finish();
+});
@@ -2,6 +2,65 @@
 
 import { useState, useCallback, useEffect, useRef, ChangeEvent } from 'react';
 import { Plus, Trash2 } from 'lucide-react';
+import {
+  FeasibilityIssue,
+  findFeasibilityIssues,
+  SetupAnalysis,
+} from '../lib/analysis';
+import {
+  appendBatch,
+  clearCheckpoint,
+  deleteRun,
+  listRuns,
+  loadCheckpoint,
+  readBatches,
+  ResultBatch,
+  RunCheckpoint,
+  RunRecord,
+  saveCheckpoint,
+  saveRun,
+  TaskCursor,
+  truncateBatches,
+} from '../lib/runStore';
+import { ExportOptions, exportFormats } from '../lib/resultExport';
+import { ImportPreview, parseDelimited } from '../lib/componentImport';
+import { FittedModel } from '../lib/mixtureModel';
+import {
+  mergeRanked,
+  planTasks,
+  readRow as readSearchRow,
+  taskPrefix,
+} from '../lib/engine';
+import { buildRunPlan, findSetupProblem, toAnalysisInput } from '../lib/runPlan';
+import {
+  Design,
+  designLabel,
+  findSamplingProblem,
+  hasFixedSize,
+  readDesignSettings,
+} from '../lib/sampling';
+import { emptyHistory, moveHistory, recordSetup, SetupHistory } from '../lib/setupHistory';
+import {
+  defaultSampling,
+  parseSetup,
+  Setup,
+  SetupLevels,
+  SetupReportEntry,
+  SetupSampling,
+  SetupSchemaError,
+  setupVersion,
+  toSetupFile,
+} from '../lib/setupSchema';
+import { decodeSetupHash, hasSetupHash, setupLink } from '../lib/setupLink';
+import { readFirstSheet } from '../lib/xlsx';
+import ComponentImportDialog from './ComponentImportDialog';
+import ComponentLevelsEditor from './ComponentLevelsEditor';
+import DesignPanel, { DesignSummary } from './DesignPanel';
+import MeasurementPanel from './MeasurementPanel';
+import OptimalSubsetPanel, { SelectedSubset } from './OptimalSubsetPanel';
+import ResultsGrid from './ResultsGrid';
+import SetupHistoryPanel from './SetupHistoryPanel';
+import SetupLibrary from './SetupLibrary';
 
 type NumericInput = number | string | null;
 
@@ -13,6 +72,17 @@ interface ComponentInput {
   max: NumericInput;
   step: NumericInput;
   fixed?: NumericInput;
+  // Discrete or log-spaced values enumerated instead of min to max by step
+  levels?: SetupLevels;
+  price?: NumericInput;
+  properties?: Record<string, NumericInput>;
+  // Components sharing an exclusive set label may not be present together
+  exclusiveSet?: string;
+  // Ids of components that must be present / absent whenever this one is present
+  requires?: string[];
+  forbids?: string[];
+  // Filled with whatever remains to reach the total instead of being enumerated
+  balance?: boolean;
 }
 
 interface GroupConfig {
@@ -24,14 +94,71 @@ interface GroupConfig {
   maxCount?: NumericInput;
 }
 
-interface WorkerProgress {
-  processed: number;
-  valid: number;
+interface PropertyConstraint {
+  id: string;
+  property: string;
+  min?: NumericInput;
+  max?: NumericInput;
+}
+
+interface RatioConstraint {
+  id: string;
+  // Component ratios reference component ids, group ratios reference group names
+  kind: 'component' | 'group';
+  numerator: string;
+  denominator: string;
+  min?: NumericInput;
+  max?: NumericInput;
+}
+
+interface OptimizationSettings {
+  enabled: boolean;
+  // 'cost' ranks by unit price, otherwise the name of a property
+  objective: string;
+  direction: 'min' | 'max';
+  limit: NumericInput;
+}
+
+interface TaskProgress {
+  done: number;
+  total: number;
+}
+
+// Raw leaves a constraint ruled out during a run, summed over every worker
+interface RejectionTally {
+  reason: string;
+  leaves: number;
+  prunes: number;
+}
+
+// What a paused worker hands back: its unfinished task, tallies and ranked rows so far
+interface WorkerSnapshot {
+  task: TaskCursor | null;
+  rejections: RejectionTally[];
+  rows: Float64Array | null;
+  scores: Float64Array | null;
+}
+
+interface RunControl {
+  pause: () => void;
+  resume: () => void;
+  checkpoint: () => void;
 }
 
 // Utility to generate a random id
 const uid = () => Math.random().toString(36).substring(2, 9);
 
+// Input types whose Ctrl+Z undoes typing rather than a setup edit
+const textInputTypes = new Set(['text', 'search', 'number', 'email', 'url', 'tel', 'password']);
+
+// One stored row in display column order, followed by its score in ranked runs
+const batchRow = (batch: ResultBatch, rowIndex: number, columnSource: number[]) => {
+  const start = rowIndex * columnSource.length;
+  const row = columnSource.map((column) => batch.rows[start + column]);
+  if (batch.scores) row.push(batch.scores[rowIndex]);
+  return row;
+};
+
 export default function CombinationApp() {
   // Components state
   const [components, setComponents] = useState<ComponentInput[]>([
@@ -49,36 +176,105 @@ export default function CombinationApp() {
   const [groupConfigs, setGroupConfigs] = useState<Record<string, GroupConfig>>({
     A: { name: 'A', minMass: null, maxMass: null, fixedMass: null, minCount: null, maxCount: null },
   });
+  // Property columns shared by every component (cost, density, solids...)
+  const [propertyNames, setPropertyNames] = useState<string[]>([]);
+  const [newPropertyName, setNewPropertyName] = useState<string>('');
+  // Bounds on the mass-weighted blended value of a property
+  const [propertyConstraints, setPropertyConstraints] = useState<PropertyConstraint[]>([]);
+  // Relative bounds between two components or two groups
+  const [ratioConstraints, setRatioConstraints] = useState<RatioConstraint[]>([]);
+  // Free-form rules, one per line, evaluated against every row
+  const [rules, setRules] = useState<string>('');
+  // Keep only the best N rows by an objective instead of enumerating everything
+  const [optimization, setOptimization] = useState<OptimizationSettings>({
+    enabled: false,
+    objective: 'cost',
+    direction: 'min',
+    limit: 100,
+  });
+  const [rankedBy, setRankedBy] = useState<string | null>(null);
+  const [sampling, setSampling] = useState<SetupSampling>(defaultSampling);
+  const [designing, setDesigning] = useState<boolean>(false);
+  const [designSummary, setDesignSummary] = useState<DesignSummary | null>(null);
+  // Stored row indices of the open run that an optimal subset has to include
+  const [forcedRows, setForcedRows] = useState<number[]>([]);
   // Generation state
   const [generating, setGenerating] = useState<boolean>(false);
+  const [runState, setRunState] = useState<'idle' | 'running' | 'pausing' | 'paused'>('idle');
+  // Checkpoint of an interrupted run, offered for resuming after a reload
+  const [savedCheckpoint, setSavedCheckpoint] = useState<RunCheckpoint | null>(null);
+  // Stored runs, newest first, and the one whose rows are shown in the results table
+  const [runs, setRuns] = useState<RunRecord[]>([]);
+  const [activeRun, setActiveRun] = useState<RunRecord | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>({
+    format: 'csv',
+    unit: 'ratio',
+    decimalSeparator: '.',
+  });
+  const [exporting, setExporting] = useState<boolean>(false);
+  const [comparison, setComparison] = useState<string>('');
   const [progress, setProgress] = useState<number>(0);
   const [processedCount, setProcessedCount] = useState<number>(0);
   const [validCount, setValidCount] = useState<number>(0);
   const [totalCombinations, setTotalCombinations] = useState<number>(0);
   const [workerCount, setWorkerCount] = useState<number>(0);
   const [maxWorkerCapacity, setMaxWorkerCapacity] = useState<number>(0);
+  const [taskProgress, setTaskProgress] = useState<TaskProgress>({ done: 0, total: 0 });
   const [results, setResults] = useState<number[][]>([]);
   const [resultsTruncated, setResultsTruncated] = useState<boolean>(false);
   const [exportRowCount, setExportRowCount] = useState<number>(0);
   const [elapsedMs, setElapsedMs] = useState<number>(0);
+  // Count and feasibility preview, recomputed in a worker whenever the setup changes
+  const [analysis, setAnalysis] = useState<SetupAnalysis | null>(null);
+  const [analyzing, setAnalyzing] = useState<boolean>(false);
+  // Why the last run rejected what it did, and the limits it could never meet
+  const [rejections, setRejections] = useState<RejectionTally[]>([]);
+  const [diagnostics, setDiagnostics] = useState<FeasibilityIssue[]>([]);
   const [isHydrated, setIsHydrated] = useState<boolean>(false);
   const [minTotal, setMinTotal] = useState<NumericInput>(0.99);
   const [maxTotal, setMaxTotal] = useState<NumericInput>(1.01);
   const [errorMessage, setErrorMessage] = useState<string>('');
   const [inputUnit, setInputUnit] = useState<'ratio' | 'percent'>('percent');
+  // What the last setup import had to default or drop to load the file
+  const [importReport, setImportReport] = useState<{
+    fileName: string;
+    version: number;
+    entries: SetupReportEntry[];
+  } | null>(null);
   const [resultUnit, setResultUnit] = useState<'ratio' | 'percent'>('ratio');
+  const [history, setHistory] = useState<SetupHistory>(emptyHistory);
+  // Label for the next recorded step when it comes from a load rather than an edit
+  const historyLabelRef = useRef<string | undefined>(undefined);
+  // Setup opened from a shared link, waiting for the go-ahead to replace the stored one
+  const [sharedSetup, setSharedSetup] = useState<Setup | null>(null);
+  const [linkCopied, setLinkCopied] = useState<boolean>(false);
+  // The untouched default setup as saved, set when the browser held no setup at startup
+  const defaultSetupRef = useRef<string | null>(null);
   const importInputRef = useRef<HTMLInputElement | null>(null);
+  const componentFileRef = useRef<HTMLInputElement | null>(null);
+  // Spreadsheet rows waiting in the import dialog; a null name means pasted data
+  const [componentImport, setComponentImport] = useState<{
+    sourceName: string | null;
+    rows: string[][];
+  } | null>(null);
   const workersRef = useRef<Worker[]>([]);
-  const workerStatsRef = useRef<WorkerProgress[]>([]);
-  const csvChunksRef = useRef<string[]>([]);
+  const rankedRowsRef = useRef<number[][]>([]);
+  const rejectionsRef = useRef<Map<string, RejectionTally>>(new Map());
+  const runControlRef = useRef<RunControl | null>(null);
+  const checkpointTimerRef = useRef<number | null>(null);
   const startTimeRef = useRef<number | null>(null);
+  const analysisWorkerRef = useRef<Worker | null>(null);
+  const designWorkerRef = useRef<Worker | null>(null);
+  // Grid points enumerated per millisecond, measured on the last run; pruned branches count
+  // every leaf they rule out, so the rate holds whatever share of the grid is valid
+  const throughputRef = useRef<number>(20000);
 
   const storageKey = 'combinationAppSetup';
-  const epsilon = 1e-6;
   const displayLimit = 50000;
-  const roundValue = (value: number) => Number(value.toFixed(6));
+  const checkpointIntervalMs = 30000;
   const inputBase =
-    'rounded-md border border-neutral-700 bg-neutral-950/70 px-2 py-1 text-sm text-white focus:outline-none focus:ring-2 focus:ring-red-500/60 focus:border-red-500';
+    'rounded-md border border-neutral-700 bg-neutral-950/70 px-2 py-1 text-sm text-white focus:outline-none focus:ring-2 focus:ring-red-500/60 focus:border-red-500 disabled:opacity-40';
   const inputRight = `${inputBase} text-right`;
   const inputCenter = `${inputBase} text-center`;
   const normalizeDecimal = (value: string) => value.replace(',', '.');
@@ -121,55 +317,6 @@ export default function CombinationApp() {
     if (Number.isNaN(parsed)) return value;
     return parsed;
   };
-  const coerceNumber = (value: NumericInput, unit: 'ratio' | 'percent' = inputUnit) => {
-    if (value === null || value === undefined || value === '') return 0;
-    if (typeof value === 'number') {
-      return Number.isNaN(value) ? 0 : value;
-    }
-    const normalized = normalizeDecimal(value);
-    const parsed = Number(normalized);
-    if (Number.isNaN(parsed)) return 0;
-    return unit === 'percent' ? parsed / 100 : parsed;
-  };
-  const coerceCount = (value: NumericInput) => {
-    if (value === null || value === undefined || value === '') return 0;
-    if (typeof value === 'number') {
-      return Number.isNaN(value) ? 0 : value;
-    }
-    const normalized = normalizeDecimal(value);
-    const parsed = Number(normalized);
-    return Number.isNaN(parsed) ? 0 : parsed;
-  };
-  const coerceOptionalNumber = (value: NumericInput, unit: 'ratio' | 'percent' = inputUnit) => {
-    if (value === null || value === undefined || value === '') return null;
-    if (typeof value === 'number') {
-      return Number.isNaN(value) ? null : value;
-    }
-    const normalized = normalizeDecimal(value);
-    const parsed = Number(normalized);
-    if (Number.isNaN(parsed)) return null;
-    return unit === 'percent' ? parsed / 100 : parsed;
-  };
-  const coerceOptionalCount = (value: NumericInput) => {
-    if (value === null || value === undefined || value === '') return null;
-    if (typeof value === 'number') {
-      return Number.isNaN(value) ? null : value;
-    }
-    const normalized = normalizeDecimal(value);
-    const parsed = Number(normalized);
-    return Number.isNaN(parsed) ? null : parsed;
-  };
-  const coerceStep = (value: NumericInput) => {
-    if (value === null || value === undefined || value === '') return 0.1;
-    const parsed = coerceNumber(value);
-    return parsed;
-  };
-  const decimalPlaces = (value: number) => {
-    if (!Number.isFinite(value)) return 0;
-    const text = value.toString();
-    if (!text.includes('.')) return 0;
-    return text.split('.')[1].length;
-  };
   const formatElapsed = (value: number) => {
     if (!Number.isFinite(value) || value <= 0) return '';
     if (value < 1000) return `${Math.round(value)} ms`;
@@ -180,46 +327,41 @@ export default function CombinationApp() {
     return () => {
       workersRef.current.forEach((worker) => worker.terminate());
       workersRef.current = [];
+      analysisWorkerRef.current?.terminate();
+      analysisWorkerRef.current = null;
+      designWorkerRef.current?.terminate();
+      designWorkerRef.current = null;
+      if (checkpointTimerRef.current !== null) {
+        window.clearInterval(checkpointTimerRef.current);
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    loadCheckpoint()
+      .then((checkpoint) => setSavedCheckpoint(checkpoint?.runId ? checkpoint : null))
+      .catch((error) => console.warn('Failed to load the run checkpoint.', error));
+    refreshRuns();
+    // A hidden tab may be discarded by the browser, save where the run is first
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') runControlRef.current?.checkpoint();
     };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
   }, []);
 
   useEffect(() => {
     const stored = window.localStorage.getItem(storageKey);
     if (!stored) {
+      defaultSetupRef.current = JSON.stringify(toSetupFile(setupSnapshot()));
       setIsHydrated(true);
       return;
     }
     try {
-      const parsed = JSON.parse(stored) as {
-        components?: ComponentInput[];
-        groupConfigs?: Record<string, GroupConfig>;
-        minTotal?: number | null;
-        maxTotal?: number | null;
-        inputUnit?: 'ratio' | 'percent';
-      };
-      if (parsed.components && parsed.components.length > 0) {
-        const normalized = parsed.components.map((comp) => ({
-          ...comp,
-          step:
-            comp.step === null || comp.step === undefined
-              ? 0.1
-              : typeof comp.step === 'number' && Number.isNaN(comp.step)
-                ? 0.1
-                : comp.step,
-        }));
-        setComponents(normalized);
-      }
-      if (parsed.groupConfigs && Object.keys(parsed.groupConfigs).length > 0) {
-        setGroupConfigs(parsed.groupConfigs);
-      }
-      if (parsed.minTotal !== undefined) {
-        setMinTotal(parsed.minTotal);
-      }
-      if (parsed.maxTotal !== undefined) {
-        setMaxTotal(parsed.maxTotal);
-      }
-      if (parsed.inputUnit) {
-        setInputUnit(parsed.inputUnit);
+      const { setup, report } = parseSetup(stored);
+      applySetup(setup);
+      if (report.length > 0) {
+        console.warn('Adjusted the setup stored in the browser.', report);
       }
     } catch (error) {
       console.warn('Failed to load setup from localStorage.', error);
@@ -228,6 +370,38 @@ export default function CombinationApp() {
     }
   }, []);
 
+  // Shared links carry a setup in the hash; it only replaces a stored setup once confirmed.
+  // Whether there is one to keep is decided when the link opens: the autosaved setup counts
+  // unless it is still the default the app started with.
+  useEffect(() => {
+    if (!isHydrated) return;
+    const openLink = () => {
+      const { hash } = window.location;
+      if (!hasSetupHash(hash)) return;
+      decodeSetupHash(hash)
+        .then(({ setup, version, report }) => {
+          if (report.length > 0) {
+            setImportReport({ fileName: 'the shared link', version, entries: report });
+          }
+          const stored = window.localStorage.getItem(storageKey);
+          if (stored !== null && stored !== defaultSetupRef.current) {
+            setSharedSetup(setup);
+          } else {
+            applySetup(setup, 'Opened shared link');
+            clearSetupHash();
+          }
+        })
+        .catch((error) => {
+          setErrorMessage(`Unable to open the shared setup: ${error.message}`);
+          clearSetupHash();
+        });
+    };
+    openLink();
+    window.addEventListener('hashchange', openLink);
+    return () => window.removeEventListener('hashchange', openLink);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isHydrated]);
+
   // Compute unique groups from components and ensure groupConfigs exist
   useEffect(() => {
     const newConfigs: Record<string, GroupConfig> = { ...groupConfigs };
@@ -255,15 +429,25 @@ export default function CombinationApp() {
 
   useEffect(() => {
     if (!isHydrated) return;
-    const payload = {
-      components,
-      groupConfigs,
-      minTotal,
-      maxTotal,
-      inputUnit,
-    };
-    window.localStorage.setItem(storageKey, JSON.stringify(payload));
-  }, [components, groupConfigs, isHydrated, minTotal, maxTotal, inputUnit]);
+    const setup = setupSnapshot();
+    window.localStorage.setItem(storageKey, JSON.stringify(toSetupFile(setup)));
+    const label = historyLabelRef.current;
+    historyLabelRef.current = undefined;
+    setHistory((prev) => recordSetup(prev, setup, Date.now(), label));
+  }, [
+    components,
+    groupConfigs,
+    isHydrated,
+    minTotal,
+    maxTotal,
+    inputUnit,
+    propertyNames,
+    propertyConstraints,
+    ratioConstraints,
+    rules,
+    optimization,
+    sampling,
+  ]);
 
   // Handler for updating component fields
   const updateComponent = useCallback(
@@ -312,18 +496,250 @@ export default function CombinationApp() {
 
   // Remove component
   const removeComponent = (id: string) => {
-    setComponents((prev) => prev.filter((c) => c.id !== id));
+    setComponents((prev) =>
+      prev
+        .filter((c) => c.id !== id)
+        .map((c) =>
+          c.requires?.includes(id) || c.forbids?.includes(id)
+            ? {
+                ...c,
+                requires: c.requires?.filter((other) => other !== id),
+                forbids: c.forbids?.filter((other) => other !== id),
+              }
+            : c
+        )
+    );
+    setRatioConstraints((prev) =>
+      prev.filter(
+        (c) => c.kind !== 'component' || (c.numerator !== id && c.denominator !== id)
+      )
+    );
   };
 
-  const exportConfig = () => {
-    const payload = {
-      components,
-      groupConfigs,
-      minTotal,
-      maxTotal,
-      inputUnit,
+  // Only one component can be the balance
+  const updateComponentLevels = (id: string, levels: SetupLevels | undefined) => {
+    setComponents((prev) => prev.map((c) => (c.id === id ? { ...c, levels } : c)));
+  };
+
+  const toggleBalance = (id: string) => {
+    setComponents((prev) =>
+      prev.map((c) => ({ ...c, balance: c.id === id ? !c.balance : false }))
+    );
+  };
+
+  // Toggle another component in this component's requires/forbids list
+  const toggleComponentLink = (id: string, field: 'requires' | 'forbids', otherId: string) => {
+    setComponents((prev) =>
+      prev.map((c) => {
+        if (c.id !== id) return c;
+        const current = c[field] ?? [];
+        return {
+          ...c,
+          [field]: current.includes(otherId)
+            ? current.filter((other) => other !== otherId)
+            : [...current, otherId],
+        };
+      })
+    );
+  };
+
+  // Handler for updating a single property value of a component
+  const updateComponentProperty = useCallback(
+    (id: string, property: string, value: NumericInput) => {
+      setComponents((prev) =>
+        prev.map((c) =>
+          c.id === id ? { ...c, properties: { ...c.properties, [property]: value } } : c
+        )
+      );
+    },
+    []
+  );
+
+  // Add a property column
+  const addProperty = () => {
+    const name = newPropertyName.trim();
+    if (!name) return;
+    if (propertyNames.includes(name)) {
+      setErrorMessage(`Property "${name}" already exists.`);
+      return;
+    }
+    setPropertyNames((prev) => [...prev, name]);
+    setNewPropertyName('');
+    setErrorMessage('');
+  };
+
+  // Remove a property column along with its values and constraints
+  const removeProperty = (name: string) => {
+    setPropertyNames((prev) => prev.filter((p) => p !== name));
+    setComponents((prev) =>
+      prev.map((c) => {
+        if (!c.properties || !(name in c.properties)) return c;
+        const { [name]: _removed, ...rest } = c.properties;
+        return { ...c, properties: rest };
+      })
+    );
+    setPropertyConstraints((prev) => prev.filter((c) => c.property !== name));
+    setOptimization((prev) => (prev.objective === name ? { ...prev, objective: 'cost' } : prev));
+  };
+
+  const addRatioConstraint = () => {
+    const first = components[0]?.id ?? '';
+    const second = components[1]?.id ?? first;
+    setRatioConstraints((prev) => [
+      ...prev,
+      { id: uid(), kind: 'component', numerator: second, denominator: first, min: null, max: null },
+    ]);
+  };
+
+  const updateRatioConstraint = useCallback(
+    (id: string, field: keyof RatioConstraint, value: NumericInput) => {
+      setRatioConstraints((prev) =>
+        prev.map((c) => (c.id === id ? { ...c, [field]: value } : c))
+      );
+    },
+    []
+  );
+
+  // Switching between component and group ratios resets both sides
+  const updateRatioKind = (id: string, kind: RatioConstraint['kind']) => {
+    const options =
+      kind === 'component' ? components.map((c) => c.id) : Object.keys(groupConfigs);
+    setRatioConstraints((prev) =>
+      prev.map((c) =>
+        c.id === id
+          ? {
+              ...c,
+              kind,
+              numerator: options[1] ?? options[0] ?? '',
+              denominator: options[0] ?? '',
+            }
+          : c
+      )
+    );
+  };
+
+  const removeRatioConstraint = (id: string) => {
+    setRatioConstraints((prev) => prev.filter((c) => c.id !== id));
+  };
+
+  const updateOptimization = <K extends keyof OptimizationSettings>(
+    field: K,
+    value: OptimizationSettings[K]
+  ) => {
+    setOptimization((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const addPropertyConstraint = () => {
+    if (propertyNames.length === 0) return;
+    setPropertyConstraints((prev) => [
+      ...prev,
+      { id: uid(), property: propertyNames[0], min: null, max: null },
+    ]);
+  };
+
+  const updatePropertyConstraint = useCallback(
+    (id: string, field: keyof PropertyConstraint, value: NumericInput) => {
+      setPropertyConstraints((prev) =>
+        prev.map((c) => (c.id === id ? { ...c, [field]: value } : c))
+      );
+    },
+    []
+  );
+
+  const removePropertyConstraint = (id: string) => {
+    setPropertyConstraints((prev) => prev.filter((c) => c.id !== id));
+  };
+
+  const setupSnapshot = (): Setup => ({
+    components,
+    groupConfigs,
+    minTotal,
+    maxTotal,
+    inputUnit,
+    propertyNames,
+    propertyConstraints,
+    ratioConstraints,
+    rules,
+    optimization,
+    sampling,
+  });
+
+  const applySetup = (setup: Setup, label?: string) => {
+    historyLabelRef.current = label;
+    setComponents(setup.components);
+    setGroupConfigs(setup.groupConfigs);
+    setMinTotal(setup.minTotal);
+    setMaxTotal(setup.maxTotal);
+    setInputUnit(setup.inputUnit);
+    setPropertyNames(setup.propertyNames);
+    setPropertyConstraints(setup.propertyConstraints);
+    setRatioConstraints(setup.ratioConstraints);
+    setRules(setup.rules);
+    setOptimization(setup.optimization);
+    setSampling(setup.sampling);
+  };
+
+  // Steps through the setup history; recording sees the restored snapshot as already known
+  const goToHistory = (index: number) => {
+    const entry = history.entries[index];
+    if (!entry || index === history.index) return;
+    setHistory(moveHistory(history, index));
+    applySetup(entry.setup);
+  };
+  const undo = () => goToHistory(history.index - 1);
+  const redo = () => goToHistory(history.index + 1);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || generating) return;
+      // Text fields and the rules editor keep the browser's own text undo
+      const { target } = event;
+      if (
+        target instanceof HTMLTextAreaElement ||
+        (target instanceof HTMLInputElement && textInputTypes.has(target.type)) ||
+        (target instanceof HTMLElement && target.isContentEditable)
+      ) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
     };
-    const blob = new Blob([JSON.stringify(payload, null, 2)], {
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const clearSetupHash = () => {
+    const { pathname, search } = window.location;
+    window.history.replaceState(null, '', `${pathname}${search}`);
+  };
+
+  const resolveSharedSetup = (load: boolean) => {
+    if (sharedSetup && load) applySetup(sharedSetup, 'Opened shared link');
+    setSharedSetup(null);
+    clearSetupHash();
+  };
+
+  const copySetupLink = () => {
+    setupLink(setupSnapshot())
+      .then((link) => navigator.clipboard.writeText(link))
+      .then(() => {
+        setLinkCopied(true);
+        window.setTimeout(() => setLinkCopied(false), 2000);
+      })
+      .catch((error) => {
+        console.warn('Failed to copy the setup link.', error);
+        setErrorMessage('Unable to copy the setup link to the clipboard.');
+      });
+  };
+
+  const exportConfig = () => {
+    const blob = new Blob([JSON.stringify(toSetupFile(setupSnapshot()), null, 2)], {
       type: 'application/json;charset=utf-8;',
     });
     const url = URL.createObjectURL(blob);
@@ -342,31 +758,17 @@ export default function CombinationApp() {
     const reader = new FileReader();
     reader.onload = () => {
       try {
-        const parsed = JSON.parse(String(reader.result)) as {
-          components?: ComponentInput[];
-          groupConfigs?: Record<string, GroupConfig>;
-          minTotal?: number | null;
-          maxTotal?: number | null;
-          inputUnit?: 'ratio' | 'percent';
-        };
-        if (parsed.components && parsed.components.length > 0) {
-          setComponents(parsed.components);
-        }
-        if (parsed.groupConfigs && Object.keys(parsed.groupConfigs).length > 0) {
-          setGroupConfigs(parsed.groupConfigs);
-        }
-        if (parsed.minTotal !== undefined) {
-          setMinTotal(parsed.minTotal);
-        }
-        if (parsed.maxTotal !== undefined) {
-          setMaxTotal(parsed.maxTotal);
-        }
-        if (parsed.inputUnit) {
-          setInputUnit(parsed.inputUnit);
-        }
+        const { setup, version, report } = parseSetup(String(reader.result));
+        applySetup(setup, `Imported ${file.name}`);
+        setImportReport({ fileName: file.name, version, entries: report });
         setErrorMessage('');
       } catch (error) {
-        setErrorMessage('Unable to import setup file. Please check the file format.');
+        setImportReport(null);
+        setErrorMessage(
+          error instanceof SetupSchemaError
+            ? `Unable to import setup file: ${error.message}`
+            : 'Unable to import setup file. Please check the file format.'
+        );
       } finally {
         if (importInputRef.current) {
           importInputRef.current.value = '';
@@ -376,123 +778,399 @@ export default function CombinationApp() {
     reader.readAsText(file);
   };
 
-  const validateInputs = () => {
-    const minTotalValue = coerceNumber(minTotal);
-    const maxTotalValue = coerceNumber(maxTotal);
-    if (minTotalValue > maxTotalValue) {
-      setErrorMessage('Minimum total must be less than or equal to maximum total.');
-      return false;
-    }
-    for (const comp of components) {
-      const stepValue = coerceStep(comp.step);
-      if (stepValue <= 0) {
-        setErrorMessage('Step must be greater than 0 for all components.');
-        return false;
-      }
+  const readComponentFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const rows = /\.xlsx$/i.test(file.name)
+      ? file.arrayBuffer().then(readFirstSheet)
+      : file.text().then(parseDelimited);
+    rows
+      .then((parsed) => {
+        setComponentImport({ sourceName: file.name, rows: parsed });
+        setErrorMessage('');
+      })
+      .catch((error) =>
+        setErrorMessage(
+          `Unable to read ${file.name}: ${error instanceof Error ? error.message : String(error)}`
+        )
+      )
+      .finally(() => {
+        if (componentFileRef.current) {
+          componentFileRef.current.value = '';
+        }
+      });
+  };
+
+  const applyComponentImport = (preview: ImportPreview, mode: 'replace' | 'append') => {
+    const imported: ComponentInput[] = preview.components.map((comp) => ({
+      id: uid(),
+      name: comp.name,
+      group: comp.group,
+      min: comp.min,
+      max: comp.max,
+      step: comp.step,
+      fixed: comp.fixed,
+      price: comp.price,
+      properties: comp.properties,
+    }));
+    historyLabelRef.current = `Imported ${imported.length} component${imported.length === 1 ? '' : 's'}`;
+    setComponents((prev) => (mode === 'replace' ? imported : [...prev, ...imported]));
+    setPropertyNames((prev) =>
+      mode === 'replace'
+        ? preview.propertyNames
+        : [...prev, ...preview.propertyNames.filter((name) => !prev.includes(name))]
+    );
+    if (mode === 'replace') {
+      // Constraints may reference components or properties that are gone
+      setRatioConstraints((prev) => prev.filter((constraint) => constraint.kind === 'group'));
+      setPropertyConstraints((prev) =>
+        prev.filter((constraint) => preview.propertyNames.includes(constraint.property))
+      );
     }
+    setComponentImport(null);
     setErrorMessage('');
-    return true;
+  };
+
+  const validateInputs = () => {
+    const problem = findSetupProblem(setupSnapshot());
+    setErrorMessage(problem ?? '');
+    return problem === null;
   };
 
   const stopActiveWorkers = () => {
+    if (checkpointTimerRef.current !== null) {
+      window.clearInterval(checkpointTimerRef.current);
+      checkpointTimerRef.current = null;
+    }
+    runControlRef.current = null;
     workersRef.current.forEach((worker) => {
       worker.postMessage({ type: 'stop' });
       worker.terminate();
     });
     workersRef.current = [];
-    workerStatsRef.current = [];
   };
 
-  // Generate combinations based on current state
-  const generateCombinations = async () => {
-    if (!validateInputs()) return;
+  // Count the combinations the current setup allows, shortly after the last edit
+  useEffect(() => {
+    if (!isHydrated) return;
+    const timer = window.setTimeout(() => {
+      analysisWorkerRef.current?.terminate();
+      analysisWorkerRef.current = null;
+      const setup = setupSnapshot();
+      if (findSetupProblem(setup) !== null) {
+        setAnalysis(null);
+        setAnalyzing(false);
+        return;
+      }
+      const { search } = buildRunPlan(setup);
+      const worker = new Worker(new URL('./workers/analysisWorker.ts', import.meta.url), {
+        type: 'module',
+      });
+      analysisWorkerRef.current = worker;
+      setAnalyzing(true);
+      worker.onmessage = (event) => {
+        const { type, result } = event.data || {};
+        if (type !== 'analysis') return;
+        setAnalysis(result);
+        setAnalyzing(false);
+        worker.terminate();
+        if (analysisWorkerRef.current === worker) analysisWorkerRef.current = null;
+      };
+      worker.postMessage({ type: 'analyze', payload: toAnalysisInput(search, inputUnit) });
+    }, 300);
+    return () => window.clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [
+    isHydrated,
+    components,
+    groupConfigs,
+    minTotal,
+    maxTotal,
+    inputUnit,
+    propertyNames,
+    propertyConstraints,
+    ratioConstraints,
+    rules,
+  ]);
+
+  // Start a run from scratch, or continue one from a saved checkpoint of the same setup
+  const refreshRuns = () =>
+    listRuns()
+      .then(setRuns)
+      .catch((error) => console.warn('Failed to list stored runs.', error));
+
+  // First `limit` rows of a stored run, in display column order
+  const loadRunRows = async (run: RunRecord, limit: number) => {
+    const rows: number[][] = [];
+    await readBatches(run.id, (batch) => {
+      for (let i = 0; i < batch.rowCount && rows.length < limit; i += 1) {
+        rows.push(batchRow(batch, i, run.columnSource));
+      }
+      return rows.length < limit;
+    });
+    return rows;
+  };
+
+  const launchRun = (checkpoint: RunCheckpoint | null) => {
     stopActiveWorkers();
+    const plan = buildRunPlan(setupSnapshot());
+    const { columnSource, ranges, totalLoops, objectiveLabel, search } = plan;
+    const setupKey = JSON.stringify({ search, columnSource });
+    if (checkpoint && checkpoint.setupKey !== setupKey) {
+      setErrorMessage(
+        'The setup changed since this run was saved. Restore it or discard the saved run.'
+      );
+      return;
+    }
     setGenerating(true);
+    setRunState('running');
     setProgress(0);
     setProcessedCount(0);
     setValidCount(0);
     setResults([]);
     setResultsTruncated(false);
-    setExportRowCount(0);
+    setExportRowCount(checkpoint ? checkpoint.rowCount : 0);
     setElapsedMs(0);
-    startTimeRef.current = performance.now();
-    // Build ranges for each component
-    const ranges = components.map((comp) => {
-      // Determine if fixed value is provided
-      const fixedValue = coerceOptionalNumber(comp.fixed ?? null);
-      if (fixedValue !== null) {
-        return [fixedValue];
-      }
-      const step = coerceStep(comp.step ?? 0.1);
-      const scale = Math.pow(
-        10,
-        Math.max(
-          decimalPlaces(step),
-          decimalPlaces(coerceNumber(comp.min ?? 0)),
-          decimalPlaces(coerceNumber(comp.max ?? 0))
-        )
-      );
-      const start = Math.round(coerceNumber(comp.min ?? 0) * scale);
-      const end = Math.round(coerceNumber(comp.max ?? 0) * scale);
-      const stepInt = Math.max(1, Math.round(step * scale));
-      const vals: number[] = [];
-      for (let v = start; v <= end; v += stepInt) {
-        vals.push(roundValue(v / scale));
-      }
-      return vals.length > 0 ? vals : [roundValue(coerceNumber(comp.min ?? 0))];
-    });
-    // Precompute total loops for progress estimation
-    const totalLoops = ranges.reduce((acc, arr) => acc * arr.length, 1);
+    setRejections([]);
+    setDiagnostics([]);
+    startTimeRef.current = performance.now() - (checkpoint?.elapsedMs ?? 0);
+    rankedRowsRef.current = checkpoint ? [...checkpoint.rankedRows] : [];
+    rejectionsRef.current = new Map(
+      (checkpoint?.rejections ?? []).map((rejection) => [rejection.reason, { ...rejection }])
+    );
+    const optimizationPayload = search.optimization;
+    const readRow = (rows: Float64Array, rowIndex: number) =>
+      readSearchRow(rows, rowIndex, columnSource);
     setTotalCombinations(totalLoops);
 
     const maxAvailableWorkers = Math.max(1, navigator.hardwareConcurrency ?? 4);
     setMaxWorkerCapacity(maxAvailableWorkers);
-    const firstRange = ranges[0] ?? [];
-    const nextWorkerCount = Math.max(1, Math.min(maxAvailableWorkers, firstRange.length || 1));
+    const { prefixLength, taskCount } = checkpoint ?? planTasks(plan, maxAvailableWorkers);
+    // Interrupted tasks go first, then the ones never handed out
+    let resumeQueue = checkpoint ? [...checkpoint.pending] : [];
+    let nextTask = checkpoint ? checkpoint.nextTask : 0;
+    const remainingTasks = resumeQueue.length + taskCount - nextTask;
+    const nextWorkerCount = Math.max(1, Math.min(maxAvailableWorkers, remainingTasks));
     setWorkerCount(nextWorkerCount);
 
-    const chunkSize = Math.ceil(firstRange.length / nextWorkerCount);
-    const componentPayload = components.map((comp) => ({ name: comp.name, group: comp.group }));
-    const componentNames = componentPayload.map((comp) => comp.name);
+    const componentNames = components.map((comp) => comp.name);
     const maxResultsForWorker = Number.MAX_SAFE_INTEGER;
-    csvChunksRef.current = [`${componentNames.join(',')}\n`];
-
-    const normalizedGroupConfigs = Object.fromEntries(
-      Object.entries(groupConfigs).map(([name, cfg]) => [
-        name,
-        {
-          ...cfg,
-          minMass: coerceOptionalNumber(cfg.minMass),
-          maxMass: coerceOptionalNumber(cfg.maxMass),
-          fixedMass: coerceOptionalNumber(cfg.fixedMass),
-          minCount: coerceOptionalCount(cfg.minCount),
-          maxCount: coerceOptionalCount(cfg.maxCount),
-        },
-      ])
-    );
+    setRankedBy(optimization.enabled ? objectiveLabel : null);
 
-    workerStatsRef.current = Array.from({ length: nextWorkerCount }, () => ({
-      processed: 0,
-      valid: 0,
-    }));
+    // Every batch of rows goes straight to IndexedDB under this run; only the first
+    // displayLimit rows are kept in memory for the table
+    const run: RunRecord = {
+      id: checkpoint?.runId ?? uid(),
+      createdAt: runs.find((stored) => stored.id === checkpoint?.runId)?.createdAt ?? Date.now(),
+      status: 'running',
+      columns: componentNames,
+      columnSource,
+      groups: components.map((comp) => comp.group),
+      rankedBy: optimization.enabled ? objectiveLabel : null,
+      setup: setupSnapshot(),
+      rowCount: checkpoint?.rowCount ?? 0,
+      validCount: 0,
+      totalCombinations: totalLoops,
+      elapsedMs: 0,
+    };
+    let batchSequence = checkpoint?.batchCount ?? 0;
+    setActiveRun(run);
+    const storeRun = () =>
+      saveRun({ ...run })
+        .then(refreshRuns)
+        .catch((error) => console.warn('Failed to save the run.', error));
+    if (checkpoint) {
+      // Batches written after the checkpoint belong to tasks that run again
+      truncateBatches(run.id, batchSequence).catch((error) =>
+        console.warn('Failed to drop batches past the checkpoint.', error)
+      );
+      loadRunRows(run, displayLimit)
+        .then((rows) => setResults((prev) => [...rows, ...prev].slice(0, displayLimit)))
+        .catch((error) => console.warn('Failed to load stored rows.', error));
+    }
+    storeRun();
+    const storeBatch = (rows: Float64Array, rowCount: number, scores: Float64Array | null) => {
+      const batch: ResultBatch = { runId: run.id, sequence: batchSequence, rows, rowCount, scores };
+      batchSequence += 1;
+      run.rowCount += rowCount;
+      appendBatch(batch).catch((error) => console.warn('Failed to store a result batch.', error));
+    };
+
+    // Progress is reported per task; the totals are kept up to date from the differences
+    const taskProcessed = checkpoint
+      ? Float64Array.from(checkpoint.taskProcessed)
+      : new Float64Array(taskCount);
+    const taskValid = checkpoint ? Float64Array.from(checkpoint.taskValid) : new Float64Array(taskCount);
+    const totals = {
+      processed: taskProcessed.reduce((acc, value) => acc + value, 0),
+      valid: taskValid.reduce((acc, value) => acc + value, 0),
+    };
+    let tasksDone = checkpoint ? checkpoint.tasksDone : 0;
+    setTaskProgress({ done: tasksDone, total: taskCount });
+    const recordTask = (taskId: number, processed: number, valid: number) => {
+      totals.processed += processed - taskProcessed[taskId];
+      totals.valid += valid - taskValid[taskId];
+      taskProcessed[taskId] = processed;
+      taskValid[taskId] = valid;
+    };
 
     const totalizeStats = () => {
-      const totals = workerStatsRef.current.reduce(
-        (acc, stat) => {
-          acc.processed += stat.processed;
-          acc.valid += stat.valid;
-          return acc;
-        },
-        { processed: 0, valid: 0 }
-      );
       setProcessedCount(totals.processed);
       setValidCount(totals.valid);
+      setTaskProgress({ done: tasksDone, total: taskCount });
       const percent = totalLoops > 0 ? Math.min(100, (totals.processed / totalLoops) * 100) : 0;
       setProgress(percent);
-      if (totals.valid > displayLimit) {
+      if (!optimization.enabled && totals.valid > displayLimit) {
         setResultsTruncated(true);
       }
     };
+    totalizeStats();
+
+    // Pausing stops every live worker at its next yield; a checkpoint is written once all of
+    // them have answered with a snapshot. Periodic checkpoints resume right after saving.
+    let state: 'running' | 'pausing' | 'paused' = 'running';
+    let resumeAfterSave = false;
+    let pausedAt = 0;
+    const finishedWorkers = new Set<number>();
+    const idleWorkers: Worker[] = [];
+    const snapshots = new Map<number, WorkerSnapshot>();
+
+    const dispatchTask = (worker: Worker) => {
+      if (state !== 'running') {
+        idleWorkers.push(worker);
+        return;
+      }
+      const resumed = resumeQueue.shift();
+      if (resumed) {
+        worker.postMessage({
+          type: 'task',
+          taskId: resumed.taskId,
+          prefix: resumed.cursor?.prefix ?? taskPrefix(ranges, prefixLength, resumed.taskId),
+          resume: resumed.cursor ?? undefined,
+        });
+        return;
+      }
+      if (nextTask >= taskCount) {
+        worker.postMessage({ type: 'finish' });
+        return;
+      }
+      const taskId = nextTask;
+      nextTask += 1;
+      worker.postMessage({ type: 'task', taskId, prefix: taskPrefix(ranges, prefixLength, taskId) });
+    };
+
+    const writeCheckpoint = () => {
+      const rejectionTotals = new Map(
+        Array.from(rejectionsRef.current.values()).map((tally) => [tally.reason, { ...tally }])
+      );
+      const rankedRows = [...rankedRowsRef.current];
+      const pending = [...resumeQueue];
+      snapshots.forEach((snapshot) => {
+        for (const rejection of snapshot.rejections) {
+          const tally = rejectionTotals.get(rejection.reason);
+          if (tally) {
+            tally.leaves += rejection.leaves;
+            tally.prunes += rejection.prunes;
+          } else {
+            rejectionTotals.set(rejection.reason, { ...rejection });
+          }
+        }
+        if (snapshot.rows && snapshot.scores) {
+          for (let i = 0; i < snapshot.scores.length; i += 1) {
+            rankedRows.push([...readRow(snapshot.rows, i), snapshot.scores[i]]);
+          }
+        }
+        if (snapshot.task) {
+          pending.push({ taskId: snapshot.task.taskId, cursor: snapshot.task });
+        }
+      });
+      const nextCheckpoint: RunCheckpoint = {
+        setupKey,
+        runId: run.id,
+        batchCount: batchSequence,
+        rowCount: run.rowCount,
+        savedAt: Date.now(),
+        elapsedMs: pausedAt - (startTimeRef.current ?? pausedAt),
+        prefixLength,
+        taskCount,
+        nextTask,
+        tasksDone,
+        pending,
+        taskProcessed: Float64Array.from(taskProcessed),
+        taskValid: Float64Array.from(taskValid),
+        rejections: Array.from(rejectionTotals.values()),
+        rankedRows,
+      };
+      run.status = resumeAfterSave ? 'running' : 'paused';
+      run.validCount = totals.valid;
+      run.elapsedMs = nextCheckpoint.elapsedMs;
+      storeRun();
+      saveCheckpoint(nextCheckpoint)
+        .then(() => setSavedCheckpoint(nextCheckpoint))
+        .catch((error) => console.warn('Failed to save the run checkpoint.', error));
+    };
+
+    const pause = (autoResume: boolean) => {
+      // Pausing during a periodic checkpoint just keeps the run paused after saving
+      if (state === 'pausing' && !autoResume) {
+        resumeAfterSave = false;
+        setRunState('pausing');
+        return;
+      }
+      if (state !== 'running') return;
+      state = 'pausing';
+      resumeAfterSave = autoResume;
+      pausedAt = performance.now();
+      snapshots.clear();
+      if (!autoResume) setRunState('pausing');
+      workersRef.current.forEach((worker, workerId) => {
+        if (!finishedWorkers.has(workerId)) worker.postMessage({ type: 'pause' });
+      });
+    };
+
+    const resume = () => {
+      if (state !== 'paused') return;
+      state = 'running';
+      setRunState('running');
+      if (run.status === 'paused') {
+        run.status = 'running';
+        storeRun();
+      }
+      // Time spent paused does not count towards the run
+      if (startTimeRef.current !== null) {
+        startTimeRef.current += performance.now() - pausedAt;
+      }
+      workersRef.current.forEach((worker, workerId) => {
+        if (!finishedWorkers.has(workerId)) worker.postMessage({ type: 'resume' });
+      });
+      idleWorkers.splice(0).forEach(dispatchTask);
+    };
+
+    const completePause = () => {
+      const live = workersRef.current.length - finishedWorkers.size;
+      if (state !== 'pausing' || snapshots.size < live) return;
+      state = 'paused';
+      writeCheckpoint();
+      if (resumeAfterSave) resume();
+      else setRunState('paused');
+    };
+
+    const onSnapshot = (workerId: number, snapshot: WorkerSnapshot) => {
+      if (finishedWorkers.has(workerId)) return;
+      if (snapshot.task) {
+        recordTask(snapshot.task.taskId, snapshot.task.processed, snapshot.task.valid);
+        totalizeStats();
+      }
+      snapshots.set(workerId, snapshot);
+      completePause();
+    };
+
+    checkpointTimerRef.current = window.setInterval(() => pause(true), checkpointIntervalMs);
+    runControlRef.current = {
+      pause: () => pause(false),
+      resume,
+      checkpoint: () => pause(true),
+    };
 
     let activeWorkers = nextWorkerCount;
 
@@ -501,25 +1179,42 @@ export default function CombinationApp() {
         type: 'module',
       });
       worker.onmessage = (event) => {
-        const { type, processed, valid, rows, rowCount, workerId: id } = event.data || {};
+        const {
+          type,
+          processed,
+          valid,
+          rows,
+          rowCount,
+          scores,
+          rejections: workerRejections,
+          taskId,
+          workerId: id,
+        } = event.data || {};
         if (typeof id !== 'number') return;
         if (type === 'progress') {
-          workerStatsRef.current[id] = { processed, valid };
+          recordTask(taskId, processed, valid);
           totalizeStats();
         }
-        if (type === 'results' && rows instanceof Float64Array && typeof rowCount === 'number') {
-          const lines: string[] = [];
+        if (type === 'taskDone') {
+          recordTask(taskId, processed, valid);
+          tasksDone += 1;
+          totalizeStats();
+          dispatchTask(worker);
+        }
+        if (type === 'snapshot') {
+          onSnapshot(id, event.data as WorkerSnapshot);
+        }
+        if (type === 'results' && rows instanceof Float64Array && scores instanceof Float64Array) {
+          // Ranked rows are merged across workers once every worker is done
           for (let i = 0; i < rowCount; i += 1) {
-            const start = i * componentNames.length;
-            const values = [];
-            for (let j = 0; j < componentNames.length; j += 1) {
-              values.push(String(rows[start + j] ?? ''));
-            }
-            lines.push(values.join(','));
-          }
-          if (lines.length > 0) {
-            csvChunksRef.current.push(`${lines.join('\n')}\n`);
+            rankedRowsRef.current.push([...readRow(rows, i), scores[i]]);
           }
+        } else if (
+          type === 'results' &&
+          rows instanceof Float64Array &&
+          typeof rowCount === 'number'
+        ) {
+          storeBatch(rows, rowCount, null);
           setExportRowCount((prev) => prev + rowCount);
           setResults((prev) => {
             if (prev.length >= displayLimit) return prev;
@@ -527,59 +1222,347 @@ export default function CombinationApp() {
             const take = Math.min(remaining, rowCount);
             const nextRows: number[][] = [];
             for (let i = 0; i < take; i += 1) {
-              const start = i * componentNames.length;
-              const row = Array.from(rows.slice(start, start + componentNames.length));
-              nextRows.push(row);
+              nextRows.push(readRow(rows, i));
             }
             return [...prev, ...nextRows];
           });
         }
         if (type === 'done') {
-          workerStatsRef.current[id] = { processed, valid };
-          totalizeStats();
+          for (const rejection of (workerRejections ?? []) as RejectionTally[]) {
+            const tally = rejectionsRef.current.get(rejection.reason);
+            if (tally) {
+              tally.leaves += rejection.leaves;
+              tally.prunes += rejection.prunes;
+            } else {
+              rejectionsRef.current.set(rejection.reason, { ...rejection });
+            }
+          }
+          finishedWorkers.add(id);
+          snapshots.delete(id);
           activeWorkers -= 1;
           worker.terminate();
+          if (activeWorkers > 0) completePause();
           if (activeWorkers <= 0) {
+            if (checkpointTimerRef.current !== null) {
+              window.clearInterval(checkpointTimerRef.current);
+              checkpointTimerRef.current = null;
+            }
+            runControlRef.current = null;
+            setRunState('idle');
+            clearCheckpoint()
+              .then(() => setSavedCheckpoint(null))
+              .catch((error) => console.warn('Failed to clear the run checkpoint.', error));
+            const tallies = Array.from(rejectionsRef.current.values()).sort(
+              (a, b) => b.leaves - a.leaves
+            );
+            setRejections(tallies);
+            if (totals.valid === 0) {
+              setDiagnostics(findFeasibilityIssues(toAnalysisInput(search, inputUnit)));
+            }
+            if (optimizationPayload) {
+              const ranked = mergeRanked(
+                rankedRowsRef.current,
+                optimizationPayload.direction,
+                optimizationPayload.limit
+              );
+              rankedRowsRef.current = [];
+              // Stored like any worker batch: worker column order, scores alongside
+              const width = columnSource.length;
+              const rankedBatch = new Float64Array(ranked.length * width);
+              ranked.forEach((row, rowIndex) => {
+                columnSource.forEach((column, index) => {
+                  rankedBatch[rowIndex * width + column] = row[index];
+                });
+              });
+              if (ranked.length > 0) {
+                storeBatch(
+                  rankedBatch,
+                  ranked.length,
+                  Float64Array.from(ranked, (row) => row[width])
+                );
+              }
+              setExportRowCount(ranked.length);
+              setResults(ranked);
+            }
             if (startTimeRef.current !== null) {
-              setElapsedMs(performance.now() - startTimeRef.current);
+              const elapsed = performance.now() - startTimeRef.current;
+              // Short runs are dominated by worker start-up, keep the previous estimate
+              if (totals.processed > 1000000 && elapsed > 0) {
+                throughputRef.current = totals.processed / elapsed;
+              }
+              setElapsedMs(elapsed);
+              run.elapsedMs = elapsed;
             }
+            run.status = 'complete';
+            run.validCount = totals.valid;
+            setActiveRun({ ...run });
+            storeRun();
             setGenerating(false);
             setProgress(100);
           }
         }
       };
-      const startIndex = workerId * chunkSize;
-      const subset = firstRange.slice(startIndex, startIndex + chunkSize);
       worker.postMessage({
         type: 'start',
         payload: {
-          components: componentPayload,
-          groupConfigs: normalizedGroupConfigs,
-          minTotal: coerceNumber(minTotal),
-          maxTotal: coerceNumber(maxTotal),
-          ranges,
-          firstValues: subset,
-          epsilon,
+          ...search,
           maxResults: maxResultsForWorker,
           workerId,
         },
       });
+      dispatchTask(worker);
       return worker;
     });
   };
 
-  // Export results to CSV
-  const exportCSV = () => {
-    if (csvChunksRef.current.length === 0 || exportRowCount === 0) return;
-    const blob = new Blob(csvChunksRef.current, { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.setAttribute('download', 'combinations.csv');
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+  // Generate combinations based on current state
+  const generateCombinations = async () => {
+    if (!validateInputs()) return;
+    launchRun(null);
+  };
+
+  const resumeSavedRun = () => {
+    if (!savedCheckpoint || !validateInputs()) return;
+    launchRun(savedCheckpoint);
+  };
+
+  // Runs made from a design or a subset are stored whole; the grid reads the run from
+  // IndexedDB, so it opens once the rows are stored
+  const storeDerivedRun = (run: RunRecord, batch: ResultBatch) =>
+    saveRun(run)
+      .then(() => (batch.rowCount > 0 ? appendBatch(batch) : undefined))
+      .then(() => {
+        setActiveRun(run);
+        setExportRowCount(run.rowCount);
+        setElapsedMs(run.elapsedMs);
+        return refreshRuns();
+      })
+      .catch((error) => console.warn('Failed to save the run.', error));
+
+  // Build a sampling design in a worker and store it as a run of its own
+  const generateDesign = () => {
+    if (!validateInputs()) return;
+    const problem = findSamplingProblem(sampling);
+    if (problem) {
+      setErrorMessage(problem);
+      return;
+    }
+    designWorkerRef.current?.terminate();
+    const setup = setupSnapshot();
+    const plan = buildRunPlan(setup);
+    const { columnSource, totalLoops } = plan;
+    const settings = readDesignSettings(sampling);
+    const label = designLabel(settings);
+    const startedAt = performance.now();
+    const worker = new Worker(new URL('./workers/samplingWorker.ts', import.meta.url), {
+      type: 'module',
+    });
+    designWorkerRef.current = worker;
+    setDesigning(true);
+    const finish = () => {
+      worker.terminate();
+      if (designWorkerRef.current === worker) designWorkerRef.current = null;
+      setDesigning(false);
+    };
+    worker.onmessage = (event: MessageEvent) => {
+      const data = event.data || {};
+      if (data.type === 'error') {
+        setErrorMessage(data.message);
+        finish();
+        return;
+      }
+      if (data.type !== 'design') return;
+      const design: Design = data.design;
+      const elapsed = performance.now() - startedAt;
+      const run: RunRecord = {
+        id: uid(),
+        createdAt: Date.now(),
+        status: 'complete',
+        columns: components.map((comp) => comp.name),
+        columnSource,
+        groups: components.map((comp) => comp.group),
+        rankedBy: null,
+        design: label,
+        setup,
+        rowCount: design.rowCount,
+        validCount: design.rowCount,
+        totalCombinations: totalLoops,
+        elapsedMs: elapsed,
+      };
+      const rows = Array.from({ length: design.rowCount }, (_, index) =>
+        readSearchRow(design.rows, index, columnSource)
+      );
+      const batch: ResultBatch = {
+        runId: run.id,
+        sequence: 0,
+        rows: design.rows,
+        rowCount: design.rowCount,
+        scores: null,
+      };
+      storeDerivedRun(run, batch);
+      setDesignSummary({
+        label,
+        rowCount: design.rowCount,
+        requested: hasFixedSize(settings.mode) ? null : settings.runs,
+        checked: design.checked,
+        rejections: design.rejections,
+      });
+      setActiveRun(null);
+      setRankedBy(null);
+      setResults(rows);
+      setResultsTruncated(false);
+      setExportRowCount(design.rowCount);
+      setElapsedMs(elapsed);
+      setErrorMessage('');
+      finish();
+    };
+    worker.onerror = () => {
+      setErrorMessage('The design could not be built.');
+      finish();
+    };
+    worker.postMessage({ type: 'design', plan, settings });
+  };
+
+  // The chosen rows of an optimal subset become a run of their own, opened in the grid
+  const storeSubset = (subset: SelectedSubset) => {
+    if (!activeRun) return;
+    const run: RunRecord = {
+      ...activeRun,
+      id: uid(),
+      createdAt: Date.now(),
+      status: 'complete',
+      design: subset.label,
+      rowCount: subset.rowCount,
+      validCount: subset.rowCount,
+      elapsedMs: subset.elapsedMs,
+    };
+    storeDerivedRun(run, {
+      runId: run.id,
+      sequence: 0,
+      rows: subset.rows,
+      rowCount: subset.rowCount,
+      scores: subset.scores,
+    });
+  };
+
+  // Fitted response models live on the run, the grid and exports show their predictions
+  const applyModels = (models: FittedModel[]) => {
+    if (!activeRun) return;
+    const run: RunRecord = { ...activeRun, models: models.length > 0 ? models : undefined };
+    saveRun(run)
+      .then(() => {
+        setActiveRun(run);
+        return refreshRuns();
+      })
+      .catch((error) => console.warn('Failed to save the response models.', error));
+  };
+
+  const toggleForcedRow = (row: number) =>
+    setForcedRows((prev) =>
+      prev.includes(row) ? prev.filter((forced) => forced !== row) : [...prev, row]
+    );
+
+  useEffect(() => setForcedRows([]), [activeRun?.id]);
+
+  const discardSavedRun = () => {
+    clearCheckpoint()
+      .then(() => setSavedCheckpoint(null))
+      .catch((error) => console.warn('Failed to clear the run checkpoint.', error));
+  };
+
+  // Export a stored run in a worker that reads its rows straight from IndexedDB
+  const exportRun = (run: RunRecord | null = activeRun) => {
+    if (!run || exporting) return;
+    const worker = new Worker(new URL('./workers/exportWorker.ts', import.meta.url), {
+      type: 'module',
+    });
+    setExporting(true);
+    worker.onmessage = (event: MessageEvent) => {
+      const data = event.data;
+      worker.terminate();
+      setExporting(false);
+      if (data?.type === 'error') {
+        setErrorMessage(`Export failed: ${data.message}`);
+        return;
+      }
+      if (data?.type !== 'exported') return;
+      const url = URL.createObjectURL(data.blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.setAttribute('download', data.fileName);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    };
+    worker.onerror = () => {
+      worker.terminate();
+      setExporting(false);
+      setErrorMessage('Export failed.');
+    };
+    worker.postMessage({ type: 'export', run, options: exportOptions });
+  };
+
+  // Stored runs are explored in the full grid, rows still arriving in the preview table
+  const showGrid = !generating && activeRun !== null && activeRun.rowCount > 0;
+
+  const openRun = (run: RunRecord) => {
+    setActiveRun(run);
+    setRankedBy(run.rankedBy);
+    setResults([]);
+    setExportRowCount(run.rowCount);
+    setResultsTruncated(false);
+    setElapsedMs(run.elapsedMs);
+  };
+
+  const removeRun = async (run: RunRecord) => {
+    await deleteRun(run.id);
+    if (activeRun?.id === run.id) {
+      setActiveRun(null);
+      setResults([]);
+      setExportRowCount(0);
+    }
+    setCompareIds((prev) => prev.filter((id) => id !== run.id));
+    await refreshRuns();
+  };
+
+  const toggleCompare = (runId: string) => {
+    setComparison('');
+    setCompareIds((prev) =>
+      prev.includes(runId) ? prev.filter((id) => id !== runId) : [...prev, runId].slice(-2)
+    );
+  };
+
+  // Rows present in both runs or only in one, matched on their exact values
+  const compareRuns = async () => {
+    const [first, second] = compareIds
+      .map((id) => runs.find((run) => run.id === id))
+      .filter((run): run is RunRecord => run !== undefined);
+    if (!first || !second) return;
+    if (first.columns.join('|') !== second.columns.join('|')) {
+      setComparison('These runs have different components and cannot be compared row by row.');
+      return;
+    }
+    const firstKeys = new Set<string>();
+    await readBatches(first.id, (batch) => {
+      for (let i = 0; i < batch.rowCount; i += 1) {
+        firstKeys.add(batchRow(batch, i, first.columnSource).slice(0, first.columns.length).join(','));
+      }
+    });
+    let shared = 0;
+    let secondOnly = 0;
+    await readBatches(second.id, (batch) => {
+      for (let i = 0; i < batch.rowCount; i += 1) {
+        const key = batchRow(batch, i, second.columnSource)
+          .slice(0, second.columns.length)
+          .join(',');
+        if (firstKeys.has(key)) shared += 1;
+        else secondOnly += 1;
+      }
+    });
+    setComparison(
+      `${shared.toLocaleString()} rows in both runs, ${(firstKeys.size - shared).toLocaleString()} only in the run from ${new Date(first.createdAt).toLocaleString()}, ${secondOnly.toLocaleString()} only in the run from ${new Date(second.createdAt).toLocaleString()}.`
+    );
   };
 
   return (
@@ -621,11 +1604,30 @@ export default function CombinationApp() {
               </div>
             </div>
             <button
-              onClick={generateCombinations}
-              disabled={generating}
-              className="rounded-md bg-red-600 px-5 py-2 text-sm font-semibold text-white shadow hover:bg-red-500 disabled:opacity-50"
+              onClick={generateCombinations}
+              disabled={generating || designing}
+              className="rounded-md bg-red-600 px-5 py-2 text-sm font-semibold text-white shadow hover:bg-red-500 disabled:opacity-50"
+            >
+              {generating ? 'Generating...' : 'Generate Combinations'}
+            </button>
+            {generating && (
+              <button
+                onClick={() =>
+                  runState === 'paused'
+                    ? runControlRef.current?.resume()
+                    : runControlRef.current?.pause()
+                }
+                disabled={runState === 'pausing'}
+                className="rounded-md border border-white/15 bg-white/10 px-5 py-2 text-sm font-semibold text-white hover:bg-white/20 disabled:opacity-50"
+              >
+                {runState === 'paused' ? 'Resume' : runState === 'pausing' ? 'Pausing...' : 'Pause'}
+              </button>
+            )}
+            <button
+              onClick={copySetupLink}
+              className="rounded-md border border-white/15 bg-white/5 px-4 py-2 text-xs font-semibold text-white hover:bg-white/15"
             >
-              {generating ? 'Generating...' : 'Generate Combinations'}
+              {linkCopied ? 'Link Copied' : 'Copy Link'}
             </button>
             <button
               onClick={exportConfig}
@@ -646,12 +1648,15 @@ export default function CombinationApp() {
               className="hidden"
               onChange={importConfig}
             />
-            {results.length > 0 && (
+            {(results.length > 0 || (activeRun && activeRun.rowCount > 0)) && (
               <button
-                onClick={exportCSV}
-                className="rounded-md border border-white/15 bg-white/10 px-5 py-2 text-sm font-semibold text-white hover:bg-white/20"
+                onClick={() => exportRun()}
+                disabled={exporting}
+                className="rounded-md border border-white/15 bg-white/10 px-5 py-2 text-sm font-semibold text-white hover:bg-white/20 disabled:cursor-not-allowed disabled:opacity-50"
               >
-                Export CSV
+                {exporting
+                  ? 'Exporting…'
+                  : `Export ${exportFormats.find((format) => format.value === exportOptions.format)?.label}`}
               </button>
             )}
           </div>
@@ -663,21 +1668,151 @@ export default function CombinationApp() {
           </div>
         )}
 
+        {importReport && (
+          <div className="rounded-md border border-white/15 bg-white/5 px-4 py-3 text-sm text-neutral-200">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <span>
+                Imported {importReport.fileName}
+                {importReport.version < setupVersion
+                  ? ` (upgraded from setup version ${importReport.version})`
+                  : ''}
+                {importReport.entries.length === 0
+                  ? ' without changes.'
+                  : `, ${importReport.entries.length.toLocaleString()} field(s) adjusted:`}
+              </span>
+              <button
+                onClick={() => setImportReport(null)}
+                className="rounded-md border border-white/15 bg-white/5 px-3 py-1 text-xs font-semibold text-white hover:bg-white/15"
+              >
+                Dismiss
+              </button>
+            </div>
+            {importReport.entries.length > 0 && (
+              <ul className="mt-2 max-h-48 space-y-0.5 overflow-y-auto text-xs text-neutral-300">
+                {importReport.entries.map((entry, index) => (
+                  <li key={`${entry.path}-${index}`}>
+                    <span
+                      className={
+                        entry.action === 'dropped' ? 'text-red-300' : 'text-amber-200'
+                      }
+                    >
+                      {entry.action === 'dropped'
+                        ? 'Rejected'
+                        : entry.action === 'migrated'
+                          ? 'Migrated'
+                          : 'Defaulted'}
+                    </span>{' '}
+                    <span className="font-mono">{entry.path}</span>: {entry.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {sharedSetup && (
+          <div className="flex flex-wrap items-center justify-between gap-3 rounded-md border border-white/15 bg-white/5 px-4 py-3 text-sm text-neutral-200">
+            <span>
+              This link carries a setup with {sharedSetup.components.length} component
+              {sharedSetup.components.length === 1 ? '' : 's'}. Loading it replaces the setup
+              stored in this browser; save yours to the library first to keep it.
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => resolveSharedSetup(true)}
+                disabled={generating}
+                className="rounded-md bg-red-600 px-4 py-1.5 text-xs font-semibold text-white hover:bg-red-500 disabled:opacity-50"
+              >
+                Load Shared Setup
+              </button>
+              <button
+                onClick={() => resolveSharedSetup(false)}
+                className="rounded-md border border-white/15 bg-white/5 px-4 py-1.5 text-xs font-semibold text-white hover:bg-white/15"
+              >
+                Keep Mine
+              </button>
+            </div>
+          </div>
+        )}
+
+        {savedCheckpoint && !generating && (
+          <div className="flex flex-wrap items-center justify-between gap-3 rounded-md border border-white/15 bg-white/5 px-4 py-3 text-sm text-neutral-200">
+            <span>
+              An interrupted run was saved on {new Date(savedCheckpoint.savedAt).toLocaleString()}{' '}
+              ({savedCheckpoint.tasksDone.toLocaleString()} of{' '}
+              {savedCheckpoint.taskCount.toLocaleString()} tasks done). It can be resumed with
+              the same setup.
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={resumeSavedRun}
+                className="rounded-md bg-red-600 px-4 py-1.5 text-xs font-semibold text-white hover:bg-red-500"
+              >
+                Resume Run
+              </button>
+              <button
+                onClick={discardSavedRun}
+                className="rounded-md border border-white/15 bg-white/5 px-4 py-1.5 text-xs font-semibold text-white hover:bg-white/15"
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        )}
+
+        <SetupLibrary
+          current={setupSnapshot()}
+          onLoad={(setup, name) => applySetup(setup, `Loaded ${name}`)}
+          disabled={generating}
+        />
+
+        <SetupHistoryPanel
+          history={history}
+          onUndo={undo}
+          onRedo={redo}
+          onJump={goToHistory}
+          disabled={generating}
+        />
+
         <div className="space-y-6">
           <div className="space-y-6 rounded-2xl border border-white/10 bg-neutral-900/60 p-6">
             <div className="flex items-center justify-between">
               <div>
                 <h2 className="text-xl font-semibold">Components</h2>
                 <p className="text-sm text-neutral-400">
-                  Define each component with min/max limits and step precision.
+                  Define each component with min/max limits and step precision, or with a list
+                  or geometric progression of levels. Components sharing an exclusive set label
+                  are never used together, and the balance component takes whatever remains to
+                  reach 100% within its min/max.
                 </p>
               </div>
-              <button
-                onClick={addComponent}
-                className="flex items-center gap-1 text-sm font-semibold text-red-300 hover:text-red-200"
-              >
-                <Plus size={18} /> Add Component
-              </button>
+              <div className="flex flex-wrap items-center gap-4">
+                <button
+                  onClick={() => componentFileRef.current?.click()}
+                  className="text-sm font-semibold text-neutral-300 hover:text-white"
+                >
+                  Import CSV/XLSX
+                </button>
+                <button
+                  onClick={() => setComponentImport({ sourceName: null, rows: [] })}
+                  className="text-sm font-semibold text-neutral-300 hover:text-white"
+                >
+                  Paste Rows
+                </button>
+                <input
+                  ref={componentFileRef}
+                  type="file"
+                  accept=".csv,.tsv,.txt,.xlsx,text/csv,text/plain"
+                  className="hidden"
+                  onChange={readComponentFile}
+                />
+                <button
+                  onClick={addComponent}
+                  className="flex items-center gap-1 text-sm font-semibold text-red-300 hover:text-red-200"
+                >
+                  <Plus size={18} /> Add Component
+                </button>
+              </div>
             </div>
 
             {/* Components table */}
@@ -691,6 +1826,12 @@ export default function CombinationApp() {
                     <th className="px-4 py-2 text-left">Max</th>
                     <th className="px-4 py-2 text-left">Step</th>
                     <th className="px-4 py-2 text-left">Fixed</th>
+                    <th className="px-4 py-2 text-left">Levels</th>
+                    <th className="px-4 py-2 text-left">Balance</th>
+                    <th className="px-4 py-2 text-left">Unit Price</th>
+                    <th className="px-4 py-2 text-left">Exclusive Set</th>
+                    <th className="px-4 py-2 text-left">Requires</th>
+                    <th className="px-4 py-2 text-left">Forbids</th>
                     <th className="px-4 py-2"></th>
                   </tr>
                 </thead>
@@ -721,6 +1862,7 @@ export default function CombinationApp() {
                         inputMode="decimal"
                         className={`${inputRight} w-20`}
                         value={formatInputValue(comp.min)}
+                        disabled={!comp.balance && !!comp.levels}
                         onChange={(e) => {
                           if (!shouldAllowInput(e.target.value)) return;
                           updateComponent(comp.id, 'min', parseInputValue(e.target.value));
@@ -733,6 +1875,7 @@ export default function CombinationApp() {
                         inputMode="decimal"
                         className={`${inputRight} w-20`}
                         value={formatInputValue(comp.max)}
+                        disabled={!comp.balance && !!comp.levels}
                         onChange={(e) => {
                           if (!shouldAllowInput(e.target.value)) return;
                           updateComponent(comp.id, 'max', parseInputValue(e.target.value));
@@ -745,6 +1888,7 @@ export default function CombinationApp() {
                         inputMode="decimal"
                         className={`${inputRight} w-20`}
                         value={formatInputValue(comp.step)}
+                        disabled={comp.balance || !!comp.levels}
                         onChange={(e) => {
                           if (!shouldAllowInput(e.target.value)) return;
                           updateComponent(comp.id, 'step', parseInputValue(e.target.value));
@@ -757,6 +1901,7 @@ export default function CombinationApp() {
                         inputMode="decimal"
                         className={`${inputRight} w-20`}
                         value={formatInputValue(comp.fixed ?? null)}
+                        disabled={comp.balance}
                         onChange={(e) => {
                           if (!shouldAllowInput(e.target.value)) return;
                           updateComponent(comp.id, 'fixed', parseInputValue(e.target.value));
@@ -764,6 +1909,78 @@ export default function CombinationApp() {
                         placeholder="--"
                       />
                     </td>
+                    <td className="px-4 py-2">
+                      <ComponentLevelsEditor
+                        levels={comp.levels}
+                        unit={inputUnit}
+                        disabled={comp.balance ?? false}
+                        inputClassName={inputRight}
+                        formatValue={formatInputValue}
+                        parseValue={parseInputValue}
+                        allowInput={shouldAllowInput}
+                        onChange={(levels) => updateComponentLevels(comp.id, levels)}
+                      />
+                    </td>
+                    <td className="px-4 py-2 text-center">
+                      <input
+                        type="checkbox"
+                        className="accent-red-600"
+                        checked={comp.balance ?? false}
+                        onChange={() => toggleBalance(comp.id)}
+                      />
+                    </td>
+                    <td className="px-4 py-2">
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        className={`${inputRight} w-20`}
+                        value={formatCountValue(comp.price ?? null)}
+                        onChange={(e) => {
+                          if (!shouldAllowInput(e.target.value)) return;
+                          updateComponent(comp.id, 'price', parseCountValue(e.target.value));
+                        }}
+                        placeholder="--"
+                      />
+                    </td>
+                    <td className="px-4 py-2">
+                      <input
+                        type="text"
+                        className={`${inputCenter} w-20`}
+                        value={comp.exclusiveSet ?? ''}
+                        onChange={(e) => updateComponent(comp.id, 'exclusiveSet', e.target.value)}
+                        placeholder="--"
+                      />
+                    </td>
+                    {(['requires', 'forbids'] as const).map((field) => (
+                      <td key={field} className="px-4 py-2">
+                        <details className="relative">
+                          <summary className="w-32 cursor-pointer truncate text-xs text-neutral-300">
+                            {components
+                              .filter((other) => comp[field]?.includes(other.id))
+                              .map((other) => other.name)
+                              .join(', ') || '--'}
+                          </summary>
+                          <div className="absolute z-10 mt-1 max-h-48 w-48 space-y-1 overflow-y-auto rounded-md border border-white/10 bg-neutral-900 p-2 shadow-lg">
+                            {components
+                              .filter((other) => other.id !== comp.id)
+                              .map((other) => (
+                                <label
+                                  key={other.id}
+                                  className="flex items-center gap-2 text-xs text-neutral-200"
+                                >
+                                  <input
+                                    type="checkbox"
+                                    className="accent-red-600"
+                                    checked={comp[field]?.includes(other.id) ?? false}
+                                    onChange={() => toggleComponentLink(comp.id, field, other.id)}
+                                  />
+                                  {other.name}
+                                </label>
+                              ))}
+                          </div>
+                        </details>
+                      </td>
+                    ))}
                       <td className="px-4 py-2 text-center">
                         {components.length > 1 && (
                           <button
@@ -923,18 +2140,436 @@ export default function CombinationApp() {
               </table>
             </div>
           </div>
+
+          <div className="rounded-2xl border border-white/10 bg-neutral-900/60 p-6">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <h2 className="text-lg font-semibold">Component Properties</h2>
+                <p className="text-sm text-neutral-400">
+                  Numeric properties per component, blended by mass in each combination.
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  className={`${inputBase} w-36`}
+                  value={newPropertyName}
+                  onChange={(e) => setNewPropertyName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') addProperty();
+                  }}
+                  placeholder="Property name"
+                />
+                <button
+                  onClick={addProperty}
+                  className="flex items-center gap-1 text-sm font-semibold text-red-300 hover:text-red-200"
+                >
+                  <Plus size={18} /> Add Property
+                </button>
+              </div>
+            </div>
+            {propertyNames.length > 0 && (
+              <div className="mt-4 overflow-x-auto">
+                <table className="min-w-full divide-y divide-white/10 text-sm">
+                  <thead className="bg-white/5 text-xs uppercase tracking-wider text-neutral-300">
+                    <tr>
+                      <th className="px-4 py-2 text-left">Component</th>
+                      {propertyNames.map((property) => (
+                        <th key={property} className="px-4 py-2 text-left">
+                          <span className="inline-flex items-center gap-2">
+                            {property}
+                            <button
+                              className="text-red-400 hover:text-red-300"
+                              onClick={() => removeProperty(property)}
+                            >
+                              <Trash2 size={14} />
+                            </button>
+                          </span>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/5">
+                    {components.map((comp) => (
+                      <tr key={comp.id}>
+                        <td className="px-4 py-2 font-medium text-white">{comp.name}</td>
+                        {propertyNames.map((property) => (
+                          <td key={property} className="px-4 py-2">
+                            <input
+                              type="text"
+                              inputMode="decimal"
+                              className={`${inputRight} w-24`}
+                              value={formatCountValue(comp.properties?.[property] ?? null)}
+                              onChange={(e) => {
+                                if (!shouldAllowInput(e.target.value)) return;
+                                updateComponentProperty(
+                                  comp.id,
+                                  property,
+                                  parseCountValue(e.target.value)
+                                );
+                              }}
+                              placeholder="0"
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <div className="rounded-2xl border border-white/10 bg-neutral-900/60 p-6">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <h2 className="text-lg font-semibold">Blended Property Constraints</h2>
+                <p className="text-sm text-neutral-400">
+                  Bound the mass-weighted average of a property across each combination.
+                </p>
+              </div>
+              <button
+                onClick={addPropertyConstraint}
+                disabled={propertyNames.length === 0}
+                className="flex items-center gap-1 text-sm font-semibold text-red-300 hover:text-red-200 disabled:opacity-50"
+              >
+                <Plus size={18} /> Add Constraint
+              </button>
+            </div>
+            {propertyConstraints.length > 0 && (
+              <div className="mt-4 overflow-x-auto">
+                <table className="min-w-full divide-y divide-white/10 text-sm">
+                  <thead className="bg-white/5 text-xs uppercase tracking-wider text-neutral-300">
+                    <tr>
+                      <th className="px-4 py-2 text-left">Property</th>
+                      <th className="px-4 py-2 text-left">Min Blended</th>
+                      <th className="px-4 py-2 text-left">Max Blended</th>
+                      <th className="px-4 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/5">
+                    {propertyConstraints.map((constraint) => (
+                      <tr key={constraint.id}>
+                        <td className="px-4 py-2">
+                          <select
+                            className={`${inputBase} w-36`}
+                            value={constraint.property}
+                            onChange={(e) =>
+                              updatePropertyConstraint(constraint.id, 'property', e.target.value)
+                            }
+                          >
+                            {propertyNames.map((property) => (
+                              <option key={property} value={property}>
+                                {property}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="text"
+                            inputMode="decimal"
+                            className={`${inputRight} w-24`}
+                            value={formatCountValue(constraint.min ?? null)}
+                            onChange={(e) => {
+                              if (!shouldAllowInput(e.target.value)) return;
+                              updatePropertyConstraint(
+                                constraint.id,
+                                'min',
+                                parseCountValue(e.target.value)
+                              );
+                            }}
+                            placeholder="--"
+                          />
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="text"
+                            inputMode="decimal"
+                            className={`${inputRight} w-24`}
+                            value={formatCountValue(constraint.max ?? null)}
+                            onChange={(e) => {
+                              if (!shouldAllowInput(e.target.value)) return;
+                              updatePropertyConstraint(
+                                constraint.id,
+                                'max',
+                                parseCountValue(e.target.value)
+                              );
+                            }}
+                            placeholder="--"
+                          />
+                        </td>
+                        <td className="px-4 py-2 text-center">
+                          <button
+                            className="text-red-400 hover:text-red-300"
+                            onClick={() => removePropertyConstraint(constraint.id)}
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <div className="rounded-2xl border border-white/10 bg-neutral-900/60 p-6">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <h2 className="text-lg font-semibold">Ratio Constraints</h2>
+                <p className="text-sm text-neutral-400">
+                  Keep one component or group between a multiple of another, e.g. 3:1 ±5% is
+                  2.85 to 3.15.
+                </p>
+              </div>
+              <button
+                onClick={addRatioConstraint}
+                className="flex items-center gap-1 text-sm font-semibold text-red-300 hover:text-red-200"
+              >
+                <Plus size={18} /> Add Ratio
+              </button>
+            </div>
+            {ratioConstraints.length > 0 && (
+              <div className="mt-4 overflow-x-auto">
+                <table className="min-w-full divide-y divide-white/10 text-sm">
+                  <thead className="bg-white/5 text-xs uppercase tracking-wider text-neutral-300">
+                    <tr>
+                      <th className="px-4 py-2 text-left">Between</th>
+                      <th className="px-4 py-2 text-left">Numerator</th>
+                      <th className="px-4 py-2 text-left">Denominator</th>
+                      <th className="px-4 py-2 text-left">Min Ratio</th>
+                      <th className="px-4 py-2 text-left">Max Ratio</th>
+                      <th className="px-4 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/5">
+                    {ratioConstraints.map((constraint) => {
+                      const options =
+                        constraint.kind === 'component'
+                          ? components.map((comp) => ({ value: comp.id, label: comp.name }))
+                          : Object.keys(groupConfigs).map((group) => ({
+                              value: group,
+                              label: `Group ${group}`,
+                            }));
+                      return (
+                        <tr key={constraint.id}>
+                          <td className="px-4 py-2">
+                            <select
+                              className={`${inputBase} w-32`}
+                              value={constraint.kind}
+                              onChange={(e) =>
+                                updateRatioKind(
+                                  constraint.id,
+                                  e.target.value as RatioConstraint['kind']
+                                )
+                              }
+                            >
+                              <option value="component">Components</option>
+                              <option value="group">Groups</option>
+                            </select>
+                          </td>
+                          {(['numerator', 'denominator'] as const).map((side) => (
+                            <td key={side} className="px-4 py-2">
+                              <select
+                                className={`${inputBase} w-36`}
+                                value={constraint[side]}
+                                onChange={(e) =>
+                                  updateRatioConstraint(constraint.id, side, e.target.value)
+                                }
+                              >
+                                {!options.some((option) => option.value === constraint[side]) && (
+                                  <option value={constraint[side]}>--</option>
+                                )}
+                                {options.map((option) => (
+                                  <option key={option.value} value={option.value}>
+                                    {option.label}
+                                  </option>
+                                ))}
+                              </select>
+                            </td>
+                          ))}
+                          {(['min', 'max'] as const).map((field) => (
+                            <td key={field} className="px-4 py-2">
+                              <input
+                                type="text"
+                                inputMode="decimal"
+                                className={`${inputRight} w-20`}
+                                value={formatCountValue(constraint[field] ?? null)}
+                                onChange={(e) => {
+                                  if (!shouldAllowInput(e.target.value)) return;
+                                  updateRatioConstraint(
+                                    constraint.id,
+                                    field,
+                                    parseCountValue(e.target.value)
+                                  );
+                                }}
+                                placeholder="--"
+                              />
+                            </td>
+                          ))}
+                          <td className="px-4 py-2 text-center">
+                            <button
+                              className="text-red-400 hover:text-red-300"
+                              onClick={() => removeRatioConstraint(constraint.id)}
+                            >
+                              <Trash2 size={16} />
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <div className="rounded-2xl border border-white/10 bg-neutral-900/60 p-6">
+            <h2 className="text-lg font-semibold">Rules</h2>
+            <p className="text-sm text-neutral-400">
+              One rule per line over component and group names, e.g.{' '}
+              <code className="text-neutral-200">A + 2*B &lt;= 0.3</code>,{' '}
+              <code className="text-neutral-200">if (Pigment &gt; 0) Binder &gt;= 20%</code> or{' '}
+              <code className="text-neutral-200">count(C) &lt;= 2</code>. Quote names with spaces,
+              use <code className="text-neutral-200">mass(G)</code> for a group total and start a
+              line with # to comment it out.
+            </p>
+            <textarea
+              className={`${inputBase} mt-4 h-28 w-full font-mono`}
+              value={rules}
+              onChange={(e) => setRules(e.target.value)}
+              spellCheck={false}
+              placeholder={'"Component 1" + "Component 2" <= 60%'}
+            />
+          </div>
+
+          <div className="rounded-2xl border border-white/10 bg-neutral-900/60 p-6">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <h2 className="text-lg font-semibold">Optimisation</h2>
+                <p className="text-sm text-neutral-400">
+                  Keep only the best formulas by an objective instead of listing every valid
+                  combination. The objective is the mass-weighted sum over components.
+                </p>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-neutral-300">
+                <input
+                  type="checkbox"
+                  className="accent-red-600"
+                  checked={optimization.enabled}
+                  onChange={(e) => updateOptimization('enabled', e.target.checked)}
+                />
+                Enabled
+              </label>
+            </div>
+            {optimization.enabled && (
+              <div className="mt-4 flex flex-wrap items-center gap-3 text-sm text-neutral-300">
+                <span>Keep the</span>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  className={`${inputRight} w-20`}
+                  value={formatCountValue(optimization.limit)}
+                  onChange={(e) => {
+                    if (!shouldAllowInput(e.target.value)) return;
+                    updateOptimization('limit', parseCountValue(e.target.value));
+                  }}
+                />
+                <select
+                  className={`${inputBase} w-32`}
+                  value={optimization.direction}
+                  onChange={(e) =>
+                    updateOptimization('direction', e.target.value as 'min' | 'max')
+                  }
+                >
+                  <option value="min">lowest</option>
+                  <option value="max">highest</option>
+                </select>
+                <select
+                  className={`${inputBase} w-40`}
+                  value={optimization.objective}
+                  onChange={(e) => updateOptimization('objective', e.target.value)}
+                >
+                  <option value="cost">cost</option>
+                  {propertyNames.map((property) => (
+                    <option key={property} value={property}>
+                      {property}
+                    </option>
+                  ))}
+                </select>
+                <span>formulas</span>
+              </div>
+            )}
+          </div>
+
+          <DesignPanel
+            sampling={sampling}
+            onChange={setSampling}
+            onGenerate={generateDesign}
+            designing={designing}
+            disabled={generating || designing}
+            inputClassName={inputBase}
+            summary={designSummary}
+          />
         </div>
+        {/* Count preview */}
+        {!generating && analysis && (
+          <div className="space-y-3 rounded-2xl border border-white/10 bg-neutral-900/60 p-6">
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm text-neutral-300">
+              <span>
+                Grid size: <span className="text-white">{analysis.raw.toLocaleString()}</span>
+              </span>
+              <span>
+                {analysis.exact ? 'Valid combinations' : 'Valid combinations (at most)'}:{' '}
+                <span className="text-white">
+                  {analysis.valid === null ? 'too many to count' : analysis.valid.toLocaleString()}
+                </span>
+              </span>
+              {analysis.valid !== 0 && analysis.raw > 0 && (
+                <span>
+                  Estimated time:{' '}
+                  <span className="text-white">
+                    ~{formatElapsed(Math.max(1, analysis.raw / throughputRef.current))}
+                  </span>
+                </span>
+              )}
+              {analyzing && <span className="text-neutral-500">Updating…</span>}
+            </div>
+            {!analysis.exact && (
+              <p className="text-xs text-neutral-400">
+                Blended property, ratio, rule and presence constraints are only applied while
+                generating, so the actual count can be lower.
+              </p>
+            )}
+            {analysis.issues.length > 0 && (
+              <ul className="space-y-1 rounded-md border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+                {analysis.issues.map((issue, index) => (
+                  <li key={`${issue.constraint}-${index}`}>{issue.message}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
         {/* Progress bar */}
         {generating && (
           <div className="space-y-2">
             <div className="flex items-center gap-2 text-sm text-red-200">
               <span className="inline-flex h-3 w-3 animate-ping rounded-full bg-red-400 opacity-70"></span>
               <span>
-                Calculating combinations… {processedCount.toLocaleString()} checked
+                {runState === 'paused' ? 'Paused' : 'Calculating combinations…'}{' '}
+                {processedCount.toLocaleString()} checked
                 {totalCombinations > 0
                   ? ` / ${totalCombinations.toLocaleString()}`
                   : ''}{' '}
-                · {validCount.toLocaleString()} valid · {workerCount} of {maxWorkerCapacity} workers
+                · {validCount.toLocaleString()} valid
+                {analysis && analysis.valid !== null
+                  ? ` of ${analysis.exact ? '' : 'at most '}${analysis.valid.toLocaleString()}`
+                  : ''}{' '}
+                · {workerCount} of {maxWorkerCapacity} workers ·{' '}
+                {taskProgress.done.toLocaleString()} of {taskProgress.total.toLocaleString()} tasks
               </span>
             </div>
             <div className="w-full overflow-hidden rounded-full bg-white/10">
@@ -945,20 +2580,82 @@ export default function CombinationApp() {
             </div>
             <p className="text-xs text-neutral-400">
               The table displays up to {displayLimit.toLocaleString()} rows to keep the UI fast.
-              CSV export includes all {exportRowCount.toLocaleString()} generated combinations.
+              Exports include all {exportRowCount.toLocaleString()} generated combinations.
             </p>
           </div>
         )}
 
+        {/* Rejection breakdown for runs without a single valid row */}
+        {!generating && elapsedMs > 0 && validCount === 0 && (
+          <div className="space-y-4 rounded-2xl border border-red-500/30 bg-neutral-900/60 p-6">
+            <div>
+              <h2 className="text-xl font-semibold">No valid combinations</h2>
+              <p className="text-sm text-neutral-400">
+                Every candidate was rejected. The breakdown shows which constraint ruled out how
+                much of the {totalCombinations.toLocaleString()} grid points and how often it
+                cut a branch of the search.
+              </p>
+            </div>
+            {(diagnostics.length > 0 || rejections.length > 0) && (
+              <ul className="space-y-1 rounded-md border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+                {diagnostics.map((issue, index) => (
+                  <li key={`${issue.constraint}-${index}`}>{issue.message}</li>
+                ))}
+                {diagnostics.length === 0 && rejections.length > 0 && (
+                  <li>
+                    {rejections[0].reason} rejected{' '}
+                    {totalCombinations > 0
+                      ? `${((rejections[0].leaves / totalCombinations) * 100).toFixed(1)}%`
+                      : rejections[0].leaves.toLocaleString()}{' '}
+                    of the grid; relaxing it first is the most likely way to get results.
+                  </li>
+                )}
+              </ul>
+            )}
+            {rejections.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-white/10 text-sm">
+                  <thead className="bg-white/5 text-xs uppercase tracking-wider text-neutral-300">
+                    <tr>
+                      <th className="px-4 py-2 text-left">Constraint</th>
+                      <th className="px-4 py-2 text-right">Rejected</th>
+                      <th className="px-4 py-2 text-right">Share</th>
+                      <th className="px-4 py-2 text-right">Branches cut</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/5">
+                    {rejections.map((rejection) => (
+                      <tr key={rejection.reason}>
+                        <td className="px-4 py-2">{rejection.reason}</td>
+                        <td className="px-4 py-2 text-right">
+                          {rejection.leaves.toLocaleString()}
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          {totalCombinations > 0
+                            ? `${((rejection.leaves / totalCombinations) * 100).toFixed(1)}%`
+                            : ''}
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          {rejection.prunes.toLocaleString()}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Results */}
-        {results.length > 0 && (
+        {(results.length > 0 || showGrid) && (
           <div className="rounded-2xl border border-white/10 bg-neutral-900/60 p-6">
             <div className="flex flex-wrap items-center justify-between gap-3">
               <h2 className="text-xl font-semibold">
                 Generated Combinations{' '}
                 <span className="text-red-300">
-                  ({results.length.toLocaleString()}
-                  {resultsTruncated ? ` of ${validCount.toLocaleString()}` : ''})
+                  ({showGrid ? exportRowCount.toLocaleString() : results.length.toLocaleString()}
+                  {!showGrid && resultsTruncated ? ` of ${exportRowCount.toLocaleString()}` : ''})
                 </span>
               </h2>
               {elapsedMs > 0 && (
@@ -993,42 +2690,249 @@ export default function CombinationApp() {
                   </button>
                 </div>
               </div>
+              <div className="flex flex-wrap items-center gap-2 text-sm text-neutral-300">
+                <span>Export as</span>
+                <select
+                  className={`${inputBase} w-36`}
+                  value={exportOptions.format}
+                  onChange={(e) =>
+                    setExportOptions((prev) => ({
+                      ...prev,
+                      format: e.target.value as ExportOptions['format'],
+                    }))
+                  }
+                >
+                  {exportFormats.map((format) => (
+                    <option key={format.value} value={format.value}>
+                      {format.label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  className={`${inputBase} w-24`}
+                  value={exportOptions.unit}
+                  onChange={(e) =>
+                    setExportOptions((prev) => ({
+                      ...prev,
+                      unit: e.target.value as ExportOptions['unit'],
+                    }))
+                  }
+                >
+                  <option value="ratio">0-1</option>
+                  <option value="percent">%</option>
+                </select>
+                <select
+                  className={`${inputBase} w-32`}
+                  value={exportOptions.decimalSeparator}
+                  disabled={exportOptions.format !== 'csv'}
+                  title="XLSX and Arrow store numbers, the spreadsheet or tool picks the separator"
+                  onChange={(e) =>
+                    setExportOptions((prev) => ({
+                      ...prev,
+                      decimalSeparator: e.target.value as ExportOptions['decimalSeparator'],
+                    }))
+                  }
+                >
+                  <option value=".">Decimal point</option>
+                  <option value=",">Decimal comma</option>
+                </select>
+              </div>
+            </div>
+            {showGrid && activeRun ? (
+              <ResultsGrid
+                run={activeRun}
+                unit={resultUnit}
+                markedRows={forcedRows}
+                onToggleRow={toggleForcedRow}
+              />
+            ) : (
+              <>
+                {resultsTruncated && (
+                  <p className="mt-2 text-xs text-neutral-400">
+                    Showing the first {displayLimit.toLocaleString()} results while the run is in
+                    progress. Every row can be explored once it completes.
+                  </p>
+                )}
+                <div className="mt-4 overflow-x-auto max-h-96 rounded-lg border border-white/10">
+                  <table className="min-w-full divide-y divide-white/10 text-sm">
+                    <thead className="sticky top-0 bg-neutral-900 text-xs uppercase tracking-wider text-neutral-300">
+                      <tr>
+                        {(activeRun?.columns ?? components.map((comp) => comp.name)).map((name, index) => (
+                          <th key={`${name}-${index}`} className="px-4 py-2 text-left">
+                            {name}
+                          </th>
+                        ))}
+                        {rankedBy && <th className="px-4 py-2 text-left">{rankedBy}</th>}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-white/5 text-neutral-100">
+                      {results.map((row, rowIndex) => (
+                        <tr key={rowIndex} className="hover:bg-white/5">
+                          {row.map((value, index) => (
+                            <td key={`${rowIndex}-${index}`} className="px-4 py-1 whitespace-nowrap text-right">
+                              {index >= (activeRun?.columns.length ?? components.length)
+                                ? value.toFixed(4)
+                                : resultUnit === 'percent'
+                                  ? `${(value * 100).toFixed(1)}%`
+                                  : value}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {showGrid && activeRun && (
+          <OptimalSubsetPanel
+            run={activeRun}
+            forcedRows={forcedRows}
+            onClearForced={() => setForcedRows([])}
+            onSelected={storeSubset}
+            disabled={generating || designing}
+            inputClassName={inputBase}
+          />
+        )}
+
+        {showGrid && activeRun && (
+          <MeasurementPanel
+            run={activeRun}
+            onApply={applyModels}
+            disabled={generating}
+            inputClassName={inputBase}
+          />
+        )}
+
+        {/* Run history */}
+        {runs.length > 0 && (
+          <div className="space-y-4 rounded-2xl border border-white/10 bg-neutral-900/60 p-6">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <h2 className="text-xl font-semibold">Run History</h2>
+                <p className="text-sm text-neutral-400">
+                  Results are stored in this browser. Open or export a past run without
+                  regenerating it, or pick two runs to compare their rows.
+                </p>
+              </div>
+              <button
+                type="button"
+                className="rounded-md border border-white/15 bg-white/5 px-3 py-2 text-sm font-semibold text-white hover:bg-white/15 disabled:cursor-not-allowed disabled:opacity-50"
+                disabled={compareIds.length !== 2}
+                onClick={() =>
+                  compareRuns().catch((error) => console.warn('Failed to compare runs.', error))
+                }
+              >
+                Compare Selected
+              </button>
             </div>
-            {resultsTruncated && (
-              <p className="mt-2 text-xs text-neutral-400">
-                Showing the first {displayLimit.toLocaleString()} results for readability. Export to
-                CSV to download the full set.
+            {comparison && (
+              <p className="rounded-md border border-white/10 bg-white/5 px-4 py-3 text-sm text-neutral-200">
+                {comparison}
               </p>
             )}
-            <div className="mt-4 overflow-x-auto max-h-96 rounded-lg border border-white/10">
+            <div className="overflow-x-auto">
               <table className="min-w-full divide-y divide-white/10 text-sm">
-                <thead className="sticky top-0 bg-neutral-900 text-xs uppercase tracking-wider text-neutral-300">
+                <thead className="bg-white/5 text-xs uppercase tracking-wider text-neutral-300">
                   <tr>
-                    {components.map((comp) => (
-                      <th key={comp.id} className="px-4 py-2 text-left">
-                        {comp.name}
-                      </th>
-                    ))}
+                    <th className="px-4 py-2 text-left">Compare</th>
+                    <th className="px-4 py-2 text-left">Started</th>
+                    <th className="px-4 py-2 text-left">Components</th>
+                    <th className="px-4 py-2 text-right">Rows</th>
+                    <th className="px-4 py-2 text-left">Status</th>
+                    <th className="px-4 py-2 text-right">Time</th>
+                    <th className="px-4 py-2 text-right">Actions</th>
                   </tr>
                 </thead>
-                <tbody className="divide-y divide-white/5 text-neutral-100">
-                  {results.map((row, rowIndex) => (
-                    <tr key={rowIndex} className="hover:bg-white/5">
-                      {row.map((value, index) => (
-                        <td key={`${rowIndex}-${index}`} className="px-4 py-1 whitespace-nowrap text-right">
-                          {resultUnit === 'percent'
-                            ? `${(value * 100).toFixed(1)}%`
-                            : value}
+                <tbody className="divide-y divide-white/5">
+                  {runs.map((run) => {
+                    const live = generating && activeRun?.id === run.id;
+                    const status =
+                      run.status === 'complete'
+                        ? 'Complete'
+                        : live
+                          ? 'Running'
+                          : savedCheckpoint?.runId === run.id
+                            ? 'Paused'
+                            : 'Interrupted';
+                    return (
+                      <tr key={run.id} className={activeRun?.id === run.id ? 'bg-white/5' : ''}>
+                        <td className="px-4 py-2">
+                          <input
+                            type="checkbox"
+                            className="h-4 w-4 accent-red-500"
+                            checked={compareIds.includes(run.id)}
+                            disabled={live}
+                            onChange={() => toggleCompare(run.id)}
+                          />
                         </td>
-                      ))}
-                    </tr>
-                  ))}
+                        <td className="px-4 py-2 whitespace-nowrap">
+                          {new Date(run.createdAt).toLocaleString()}
+                        </td>
+                        <td className="px-4 py-2">
+                          {run.columns.join(', ')}
+                          {run.rankedBy ? ` · ranked by ${run.rankedBy}` : ''}
+                          {run.design ? ` · ${run.design}` : ''}
+                          {run.models?.length
+                            ? ` · predicts ${run.models.map((model) => model.response).join(', ')}`
+                            : ''}
+                        </td>
+                        <td className="px-4 py-2 text-right">{run.rowCount.toLocaleString()}</td>
+                        <td className="px-4 py-2">{status}</td>
+                        <td className="px-4 py-2 text-right">{formatElapsed(run.elapsedMs)}</td>
+                        <td className="px-4 py-2 text-right whitespace-nowrap">
+                          <div className="inline-flex gap-2">
+                            <button
+                              type="button"
+                              className="rounded-md border border-white/15 bg-white/5 px-2 py-1 text-xs font-semibold text-white hover:bg-white/15 disabled:cursor-not-allowed disabled:opacity-50"
+                              disabled={generating}
+                              onClick={() => openRun(run)}
+                            >
+                              Open
+                            </button>
+                            <button
+                              type="button"
+                              className="rounded-md border border-white/15 bg-white/5 px-2 py-1 text-xs font-semibold text-white hover:bg-white/15 disabled:cursor-not-allowed disabled:opacity-50"
+                              disabled={live || exporting || run.rowCount === 0}
+                              onClick={() => exportRun(run)}
+                            >
+                              Export
+                            </button>
+                            <button
+                              type="button"
+                              className="rounded-md border border-red-500/40 bg-red-500/10 px-2 py-1 text-xs font-semibold text-red-200 hover:bg-red-500/20 disabled:cursor-not-allowed disabled:opacity-50"
+                              disabled={live || savedCheckpoint?.runId === run.id}
+                              onClick={() =>
+                                removeRun(run).catch((error) =>
+                                  console.warn('Failed to delete the run.', error)
+                                )
+                              }
+                            >
+                              Delete
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
                 </tbody>
               </table>
             </div>
           </div>
         )}
       </div>
+      {componentImport && (
+        <ComponentImportDialog
+          sourceName={componentImport.sourceName}
+          rows={componentImport.rows}
+          existingNames={components.map((comp) => comp.name)}
+          onImport={applyComponentImport}
+          onClose={() => setComponentImport(null)}
+        />
+      )}
     </div>
   );
 }
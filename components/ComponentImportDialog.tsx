@@ -0,0 +1,223 @@
+"use client";
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  detectUnit,
+  guessMapping,
+  ImportField,
+  importFields,
+  ImportPreview,
+  ImportUnit,
+  mapComponentRows,
+  parseDelimited,
+} from '../lib/componentImport';
+
+interface ComponentImportDialogProps {
+  // Name of the imported file, null when the data is pasted into the dialog
+  sourceName: string | null;
+  rows: string[][];
+  // Names of the current components, which appended rows may not repeat
+  existingNames: string[];
+  onImport: (preview: ImportPreview, mode: 'replace' | 'append') => void;
+  onClose: () => void;
+}
+
+// Errors listed in the dialog; the count covers the rest
+const shownErrors = 50;
+
+export default function ComponentImportDialog({
+  sourceName,
+  rows: fileRows,
+  existingNames,
+  onImport,
+  onClose,
+}: ComponentImportDialogProps) {
+  const [pasted, setPasted] = useState<string>('');
+  const [headerRow, setHeaderRow] = useState<boolean>(true);
+  const [mapping, setMapping] = useState<ImportField[]>([]);
+  const [unit, setUnit] = useState<ImportUnit>('percent');
+  const [mode, setMode] = useState<'replace' | 'append'>('append');
+
+  const rows = useMemo(
+    () => (sourceName === null ? parseDelimited(pasted) : fileRows),
+    [sourceName, pasted, fileRows]
+  );
+  const columnCount = rows.reduce((acc, row) => Math.max(acc, row.length), 0);
+
+  // Fresh guesses whenever the data or its header row changes
+  useEffect(() => {
+    const headers = headerRow
+      ? Array.from({ length: columnCount }, (_, index) => rows[0]?.[index] ?? '')
+      : [];
+    const guessed = headerRow
+      ? guessMapping(headers)
+      : Array.from({ length: columnCount }, (_, index): ImportField =>
+          index === 0 ? 'name' : 'ignore'
+        );
+    setMapping(guessed);
+    setUnit(detectUnit(rows, headerRow, guessed));
+  }, [rows, headerRow, columnCount]);
+
+  const preview = useMemo(
+    () =>
+      mapComponentRows(rows, headerRow, mapping, unit, mode === 'append' ? existingNames : []),
+    [rows, headerRow, mapping, unit, mode, existingNames]
+  );
+  const samples = rows.slice(headerRow ? 1 : 0, headerRow ? 4 : 3);
+
+  const updateMapping = (column: number, field: ImportField) => {
+    setMapping((prev) =>
+      prev.map((current, index) => {
+        if (index === column) return field;
+        // Every field but properties maps to a single column
+        if (field !== 'property' && field !== 'ignore' && current === field) return 'ignore';
+        return current;
+      })
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4">
+      <div className="flex max-h-[90vh] w-full max-w-4xl flex-col gap-4 overflow-y-auto rounded-2xl border border-white/10 bg-neutral-900 p-6 text-neutral-100">
+        <div>
+          <h2 className="text-xl font-semibold">Import Components</h2>
+          <p className="text-sm text-neutral-400">
+            {sourceName === null
+              ? 'Paste rows copied from a spreadsheet, or comma or semicolon separated text.'
+              : `Rows read from ${sourceName}.`}{' '}
+            Pick the field each column holds; unknown columns become properties.
+          </p>
+        </div>
+        {sourceName === null && (
+          <textarea
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            rows={6}
+            autoFocus
+            placeholder={'Name\tGroup\tMin\tMax\tStep\nWater\tA\t0\t50\t5'}
+            className="w-full rounded-md border border-neutral-700 bg-neutral-950/70 px-3 py-2 font-mono text-xs text-white focus:border-red-500 focus:outline-none focus:ring-2 focus:ring-red-500/60"
+          />
+        )}
+        {columnCount > 0 && (
+          <>
+            <div className="flex flex-wrap items-center gap-4 text-sm text-neutral-300">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 accent-red-500"
+                  checked={headerRow}
+                  onChange={(e) => setHeaderRow(e.target.checked)}
+                />
+                First row holds column names
+              </label>
+              <label className="flex items-center gap-2">
+                Masses are in
+                <select
+                  className="rounded-md border border-neutral-700 bg-neutral-950/70 px-2 py-1 text-sm text-white"
+                  value={unit}
+                  onChange={(e) => setUnit(e.target.value as ImportUnit)}
+                >
+                  <option value="percent">%</option>
+                  <option value="ratio">0-1</option>
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  className="accent-red-500"
+                  checked={mode === 'append'}
+                  onChange={() => setMode('append')}
+                />
+                Add to the current components
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  className="accent-red-500"
+                  checked={mode === 'replace'}
+                  onChange={() => setMode('replace')}
+                />
+                Replace them
+              </label>
+            </div>
+            <div className="overflow-x-auto rounded-lg border border-white/10">
+              <table className="min-w-full divide-y divide-white/10 text-sm">
+                <thead className="bg-white/5 text-xs uppercase tracking-wider text-neutral-300">
+                  <tr>
+                    {Array.from({ length: columnCount }, (_, column) => (
+                      <th key={column} className="px-4 py-2 text-left">
+                        <div className="mb-1 truncate normal-case">
+                          {(headerRow && rows[0]?.[column]) || `Column ${column + 1}`}
+                        </div>
+                        <select
+                          className="rounded-md border border-neutral-700 bg-neutral-950/70 px-2 py-1 text-xs normal-case text-white"
+                          value={mapping[column] ?? 'ignore'}
+                          onChange={(e) => updateMapping(column, e.target.value as ImportField)}
+                        >
+                          {importFields.map((field) => (
+                            <option key={field.value} value={field.value}>
+                              {field.label}
+                            </option>
+                          ))}
+                        </select>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5 text-neutral-300">
+                  {samples.map((row, rowIndex) => (
+                    <tr key={rowIndex}>
+                      {Array.from({ length: columnCount }, (_, column) => (
+                        <td key={column} className="whitespace-nowrap px-4 py-1">
+                          {row[column] ?? ''}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {preview.errors.length > 0 && (
+              <div className="rounded-md border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+                <p className="font-semibold">
+                  {preview.errors[0].row === 0
+                    ? 'Nothing can be imported yet:'
+                    : `${preview.errors.length.toLocaleString()} row(s) will be skipped:`}
+                </p>
+                <ul className="mt-1 max-h-40 space-y-0.5 overflow-y-auto">
+                  {preview.errors.slice(0, shownErrors).map((error, index) => (
+                    <li key={`${error.row}-${index}`}>
+                      {error.row > 0 ? `Row ${error.row}: ` : ''}
+                      {error.message}
+                    </li>
+                  ))}
+                  {preview.errors.length > shownErrors && (
+                    <li>…and {(preview.errors.length - shownErrors).toLocaleString()} more</li>
+                  )}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-md border border-white/15 bg-white/5 px-4 py-2 text-sm font-semibold text-white hover:bg-white/15"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            disabled={preview.components.length === 0}
+            onClick={() => onImport(preview, mode)}
+            className="rounded-md bg-red-600 px-4 py-2 text-sm font-semibold text-white hover:bg-red-500 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Import {preview.components.length.toLocaleString()} Component
+            {preview.components.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+"use client";
+
+import { useState } from 'react';
+import { resolveLevels } from '../lib/runPlan';
+import { SetupLevels } from '../lib/setupSchema';
+
+type NumericInput = number | string | null;
+
+interface ComponentLevelsEditorProps {
+  levels: SetupLevels | undefined;
+  unit: 'ratio' | 'percent';
+  disabled: boolean;
+  inputClassName: string;
+  formatValue: (value: NumericInput) => string;
+  parseValue: (value: string) => NumericInput;
+  allowInput: (value: string) => boolean;
+  onChange: (levels: SetupLevels | undefined) => void;
+}
+
+const modes = [
+  { value: 'range', label: 'Range' },
+  { value: 'list', label: 'List' },
+  { value: 'geometric', label: 'Geometric' },
+] as const;
+
+const defaultProgression: SetupLevels = {
+  mode: 'geometric',
+  start: 0.001,
+  end: 0.1,
+  count: 5,
+  zero: true,
+};
+
+// Levels are separated by spaces or semicolons; a lone comma without a dot is a decimal
+// comma as in every other input, anything else with commas is split on them too
+const splitLevels = (text: string) =>
+  text.split(/[\s;]+/).flatMap((token) => {
+    const trimmed = token.replace(/^,+|,+$/g, '');
+    if (!trimmed) return [];
+    return /^[^,.]*,[^,.]*$/.test(trimmed) ? [trimmed] : trimmed.split(',').filter(Boolean);
+  });
+
+const displayLevel = (value: number, unit: 'ratio' | 'percent') =>
+  String(Number((unit === 'percent' ? value * 100 : value).toPrecision(12)));
+
+export default function ComponentLevelsEditor({
+  levels,
+  unit,
+  disabled,
+  inputClassName,
+  formatValue,
+  parseValue,
+  allowInput,
+  onChange,
+}: ComponentLevelsEditorProps) {
+  // Text of the list while it is being typed, so separators and half numbers survive
+  const [draft, setDraft] = useState<string | null>(null);
+  const [invalid, setInvalid] = useState<string[]>([]);
+
+  if (disabled) {
+    return <span className="text-xs text-neutral-500">--</span>;
+  }
+
+  const mode = levels?.mode ?? 'range';
+  const resolved = levels ? resolveLevels(levels, unit) : [];
+  const unitLabel = unit === 'percent' ? '%' : '0-1';
+  const summary = !levels
+    ? 'Range'
+    : levels.mode === 'list'
+      ? `${resolved.length} level${resolved.length === 1 ? '' : 's'}`
+      : `Geometric, ${resolved.length} levels`;
+
+  const selectMode = (next: (typeof modes)[number]['value']) => {
+    setDraft(null);
+    setInvalid([]);
+    if (next === 'range') onChange(undefined);
+    if (next === 'list') onChange({ mode: 'list', values: resolved });
+    if (next === 'geometric') onChange(defaultProgression);
+  };
+
+  const updateList = (text: string) => {
+    setDraft(text);
+    const tokens = splitLevels(text);
+    const bad = tokens.filter((token) => !Number.isFinite(Number(token.replace(',', '.'))));
+    setInvalid(bad);
+    if (bad.length > 0 || tokens.length === 0) return;
+    const values = tokens.map((token) => {
+      const parsed = Number(token.replace(',', '.'));
+      return Number((unit === 'percent' ? parsed / 100 : parsed).toPrecision(12));
+    });
+    onChange({ mode: 'list', values });
+  };
+
+  const updateProgression = (field: 'start' | 'end', text: string) => {
+    if (levels?.mode !== 'geometric' || !allowInput(text)) return;
+    onChange({ ...levels, [field]: parseValue(text) });
+  };
+  const updateCount = (text: string) => {
+    if (levels?.mode !== 'geometric' || !/^\d*$/.test(text)) return;
+    onChange({ ...levels, count: text === '' ? '' : Number(text) });
+  };
+
+  return (
+    <details className="relative">
+      <summary className="w-28 cursor-pointer truncate text-xs text-neutral-300">
+        {summary}
+      </summary>
+      <div className="absolute z-10 mt-1 w-72 space-y-3 rounded-md border border-white/10 bg-neutral-900 p-3 shadow-lg">
+        <div className="flex rounded-full border border-white/10 bg-white/5 p-1">
+          {modes.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              className={`flex-1 px-2 py-1 text-xs font-semibold ${
+                mode === option.value ? 'rounded-full bg-red-600 text-white' : 'text-neutral-300'
+              }`}
+              onClick={() => selectMode(option.value)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {mode === 'range' && (
+          <p className="text-xs text-neutral-400">
+            Every value from min to max by step. Switch to a list for discrete levels or to a
+            geometric progression for log-spaced ones.
+          </p>
+        )}
+        {levels?.mode === 'list' && (
+          <div className="space-y-1">
+            <label className="block text-xs text-neutral-400">
+              Allowed values ({unitLabel}), separated by spaces or semicolons
+            </label>
+            <input
+              type="text"
+              className={`${inputClassName} w-full`}
+              value={draft ?? levels.values.map((value) => displayLevel(value, unit)).join('; ')}
+              onChange={(e) => updateList(e.target.value)}
+              onBlur={() => {
+                setDraft(null);
+                setInvalid([]);
+              }}
+              placeholder="0; 0.5; 1.5; 4"
+            />
+            {invalid.length > 0 && (
+              <p className="text-xs text-red-300">Not a number: {invalid.join(', ')}</p>
+            )}
+          </div>
+        )}
+        {levels?.mode === 'geometric' && (
+          <div className="space-y-2">
+            <div className="grid grid-cols-3 gap-2 text-xs text-neutral-400">
+              <label className="space-y-1">
+                <span className="block">From ({unitLabel})</span>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  className={`${inputClassName} w-full`}
+                  value={formatValue(levels.start)}
+                  onChange={(e) => updateProgression('start', e.target.value)}
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="block">To ({unitLabel})</span>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  className={`${inputClassName} w-full`}
+                  value={formatValue(levels.end)}
+                  onChange={(e) => updateProgression('end', e.target.value)}
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="block">Levels</span>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  className={`${inputClassName} w-full`}
+                  value={levels.count === null ? '' : String(levels.count)}
+                  onChange={(e) => updateCount(e.target.value)}
+                />
+              </label>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-neutral-200">
+              <input
+                type="checkbox"
+                className="accent-red-600"
+                checked={levels.zero}
+                onChange={() => onChange({ ...levels, zero: !levels.zero })}
+              />
+              Also allow 0 (left out)
+            </label>
+          </div>
+        )}
+        {levels && (
+          <p className="text-xs text-neutral-400">
+            {resolved.length > 0
+              ? `Values (${unitLabel}): ${resolved
+                  .map((value) => displayLevel(value, unit))
+                  .join(', ')}`
+              : 'No valid levels yet.'}
+          </p>
+        )}
+      </div>
+    </details>
+  );
+}
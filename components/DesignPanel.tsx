@@ -0,0 +1,161 @@
+"use client";
+
+import { hasFixedSize, samplingModes } from '../lib/sampling';
+import { Rejection } from '../lib/search';
+import { SetupSampling } from '../lib/setupSchema';
+
+// Outcome of the last design, shown until the next one
+export interface DesignSummary {
+  label: string;
+  rowCount: number;
+  // Runs asked for, null for mixture designs whose size follows from the components
+  requested: number | null;
+  checked: number;
+  rejections: Rejection[];
+}
+
+interface DesignPanelProps {
+  sampling: SetupSampling;
+  onChange: (sampling: SetupSampling) => void;
+  onGenerate: () => void;
+  designing: boolean;
+  disabled: boolean;
+  inputClassName: string;
+  summary: DesignSummary | null;
+}
+
+const modeHints: Record<SetupSampling['mode'], string> = {
+  lhs: 'Each varying component is split into as many strata as runs and every stratum is used once, so the runs cover each component evenly.',
+  maximin:
+    'Draws a large pool of feasible formulas and keeps the runs that are furthest apart from each other.',
+  random: 'Feasible formulas drawn at random, each component in a random order.',
+  lattice:
+    'Every blend of the varying components in steps of 1/degree of what their minimums leave, rounded onto the grid.',
+  centroid:
+    'The pure components, every equal two-part blend, three-part blend and so on up to the overall centroid.',
+};
+
+const countText = (value: SetupSampling['runs']) =>
+  value === null || value === undefined ? '' : String(value);
+
+export default function DesignPanel({
+  sampling,
+  onChange,
+  onGenerate,
+  designing,
+  disabled,
+  inputClassName,
+  summary,
+}: DesignPanelProps) {
+  const update = (field: 'runs' | 'seed' | 'degree', text: string) => {
+    if (!/^\d*$/.test(text)) return;
+    onChange({ ...sampling, [field]: text === '' ? '' : Number(text) });
+  };
+  const fixedSize = hasFixedSize(sampling.mode);
+  const topRejections = summary
+    ? [...summary.rejections].sort((a, b) => b.leaves - a.leaves).slice(0, 3)
+    : [];
+  const shortfall =
+    summary !== null && summary.requested !== null && summary.rowCount < summary.requested;
+
+  return (
+    <div className="space-y-4 rounded-2xl border border-white/10 bg-neutral-900/60 p-6">
+      <div>
+        <h2 className="text-lg font-semibold">Design of Experiments</h2>
+        <p className="text-sm text-neutral-400">
+          Plan a small, well-spread set of lab runs instead of listing every valid combination.
+          Every run meets the same bounds, totals, group limits and constraints as a full
+          generation, and the same seed always gives the same design.
+        </p>
+      </div>
+      <div className="flex flex-wrap items-end gap-3 text-sm text-neutral-300">
+        <label className="space-y-1">
+          <span className="block text-xs text-neutral-400">Design</span>
+          <select
+            className={`${inputClassName} w-48`}
+            value={sampling.mode}
+            onChange={(e) =>
+              onChange({ ...sampling, mode: e.target.value as SetupSampling['mode'] })
+            }
+          >
+            {samplingModes.map((mode) => (
+              <option key={mode.value} value={mode.value}>
+                {mode.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {!fixedSize && (
+          <label className="space-y-1">
+            <span className="block text-xs text-neutral-400">Runs</span>
+            <input
+              type="text"
+              inputMode="numeric"
+              className={`${inputClassName} w-20 text-right`}
+              value={countText(sampling.runs)}
+              onChange={(e) => update('runs', e.target.value)}
+            />
+          </label>
+        )}
+        {sampling.mode === 'lattice' && (
+          <label className="space-y-1">
+            <span className="block text-xs text-neutral-400">Degree</span>
+            <input
+              type="text"
+              inputMode="numeric"
+              className={`${inputClassName} w-20 text-right`}
+              value={countText(sampling.degree)}
+              onChange={(e) => update('degree', e.target.value)}
+            />
+          </label>
+        )}
+        <label className="space-y-1">
+          <span className="block text-xs text-neutral-400">Seed</span>
+          <input
+            type="text"
+            inputMode="numeric"
+            className={`${inputClassName} w-28 text-right`}
+            value={countText(sampling.seed)}
+            onChange={(e) => update('seed', e.target.value)}
+          />
+        </label>
+        <button
+          type="button"
+          onClick={() =>
+            onChange({ ...sampling, seed: Math.floor(Math.random() * 1000000) })
+          }
+          className="rounded-md border border-white/15 bg-white/5 px-3 py-2 text-xs font-semibold text-white hover:bg-white/15"
+        >
+          New Seed
+        </button>
+        <button
+          type="button"
+          onClick={onGenerate}
+          disabled={disabled}
+          className="rounded-md bg-red-600 px-4 py-2 text-sm font-semibold text-white shadow hover:bg-red-500 disabled:opacity-50"
+        >
+          {designing ? 'Designing...' : 'Generate Design'}
+        </button>
+      </div>
+      <p className="text-xs text-neutral-400">{modeHints[sampling.mode]}</p>
+      {summary && (
+        <div className="space-y-1 rounded-md border border-white/15 bg-white/5 px-4 py-3 text-sm text-neutral-200">
+          <p>
+            {summary.label}: {summary.rowCount.toLocaleString()} run
+            {summary.rowCount === 1 ? '' : 's'} from {summary.checked.toLocaleString()}{' '}
+            candidates checked.
+          </p>
+          {(shortfall || summary.rowCount === 0) && topRejections.length > 0 && (
+            <p className="text-neutral-300">
+              {summary.rowCount === 0
+                ? 'No candidate met every constraint.'
+                : `Only ${summary.rowCount} of ${summary.requested} runs could be placed.`}{' '}
+              Most candidates broke: {topRejections.map((tally) => tally.reason).join('; ')}.
+              Maximin and random designs search the feasible region more thoroughly.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
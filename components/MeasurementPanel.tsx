@@ -0,0 +1,292 @@
+"use client";
+
+import { ChangeEvent, useMemo, useRef, useState } from 'react';
+import {
+  fitMixtureModel,
+  FittedModel,
+  MeasurementError,
+  Measurements,
+  predictionLabel,
+  readMeasurements,
+} from '../lib/mixtureModel';
+import { MixtureModel, mixtureModels } from '../lib/optimalDesign';
+import { RunRecord } from '../lib/runStore';
+
+interface MeasurementPanelProps {
+  run: RunRecord;
+  // Stores the models on the open run, an empty list removes its predicted columns
+  onApply: (models: FittedModel[]) => void;
+  disabled: boolean;
+  inputClassName: string;
+}
+
+type ResponseFit = { response: string; model: FittedModel | null; error: string };
+
+const formatStat = (value: number, digits: number) =>
+  Number.isFinite(value) ? value.toFixed(digits) : '--';
+
+// Coefficients and residuals keep four significant digits whatever their magnitude
+const formatNumber = (value: number) =>
+  Number.isFinite(value) ? String(Number(value.toPrecision(4))) : '--';
+
+export default function MeasurementPanel({
+  run,
+  onApply,
+  disabled,
+  inputClassName,
+}: MeasurementPanelProps) {
+  const [measurements, setMeasurements] = useState<Measurements | null>(null);
+  // The columns the measurements were read against; another run may have other components
+  const [columns, setColumns] = useState<string[]>([]);
+  const [fileName, setFileName] = useState<string>('');
+  const [model, setModel] = useState<MixtureModel>('quadratic');
+  const [selected, setSelected] = useState<number>(0);
+  const [errorMessage, setErrorMessage] = useState<string>('');
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  const fits = useMemo<ResponseFit[]>(
+    () =>
+      measurements
+        ? measurements.responses.map((response, index) => {
+            try {
+              return {
+                response: response.name,
+                model: fitMixtureModel(measurements, index, model, columns),
+                error: '',
+              };
+            } catch (error) {
+              if (!(error instanceof MeasurementError)) throw error;
+              return { response: response.name, model: null, error: error.message };
+            }
+          })
+        : [],
+    [measurements, model, columns]
+  );
+  const fitted = fits.flatMap((fit) => (fit.model ? [fit.model] : []));
+  const current = fits[Math.min(selected, fits.length - 1)];
+  const sameColumns = columns.join('\n') === run.columns.join('\n');
+
+  const importFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const text = await file.text();
+      const excluded = [
+        ...(run.rankedBy ? [run.rankedBy] : []),
+        ...(run.models ?? []).map(predictionLabel),
+      ];
+      setMeasurements(readMeasurements(text, run.columns, excluded));
+      setColumns(run.columns);
+      setFileName(file.name);
+      setSelected(0);
+      setErrorMessage('');
+    } catch (error) {
+      setErrorMessage(
+        error instanceof MeasurementError
+          ? error.message
+          : 'Unable to read the measurements. Please check the file format.'
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-2xl border border-white/10 bg-neutral-900/60 p-6">
+      <div>
+        <h2 className="text-lg font-semibold">Measurements</h2>
+        <p className="text-sm text-neutral-400">
+          Bring lab results back in: a CSV of measured rows with the component columns of the
+          results (an export works) and a column per measured response. A Scheffé model is fitted
+          to each response and can predict it for every row of the open run.
+        </p>
+      </div>
+      <div className="flex flex-wrap items-end gap-3 text-sm text-neutral-300">
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain"
+          className="hidden"
+          onChange={importFile}
+        />
+        <button
+          type="button"
+          onClick={() => fileRef.current?.click()}
+          className="rounded-md border border-white/15 bg-white/5 px-3 py-2 text-sm font-semibold text-white hover:bg-white/15"
+        >
+          Import Measurements
+        </button>
+        <label className="space-y-1">
+          <span className="block text-xs text-neutral-400">Model</span>
+          <select
+            className={`${inputClassName} w-44`}
+            value={model}
+            onChange={(e) => setModel(e.target.value as MixtureModel)}
+          >
+            {mixtureModels.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={() => onApply(fitted)}
+          disabled={disabled || fitted.length === 0 || !sameColumns}
+          className="rounded-md bg-red-600 px-4 py-2 text-sm font-semibold text-white shadow hover:bg-red-500 disabled:opacity-50"
+        >
+          Add Predicted Columns
+        </button>
+        {run.models && run.models.length > 0 && (
+          <button
+            type="button"
+            onClick={() => onApply([])}
+            disabled={disabled}
+            className="rounded-md border border-white/15 bg-white/5 px-3 py-2 text-sm font-semibold text-white hover:bg-white/15 disabled:opacity-50"
+          >
+            Remove Predictions
+          </button>
+        )}
+      </div>
+      {measurements && !sameColumns && (
+        <p className="text-xs text-amber-200">
+          The open run has other components than the measurements, import them again to predict
+          here.
+        </p>
+      )}
+      {errorMessage && (
+        <div className="rounded-md border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+          {errorMessage}
+        </div>
+      )}
+      {measurements && (
+        <div className="space-y-1 text-xs text-neutral-300">
+          <p>
+            {fileName}: {measurements.compositions.length} measured row
+            {measurements.compositions.length === 1 ? '' : 's'}, amounts read as{' '}
+            {measurements.unit === 'percent' ? 'percent' : 'ratios'}.
+          </p>
+          {measurements.skipped.length > 0 && (
+            <p className="text-neutral-400">
+              Skipped{' '}
+              {measurements.skipped
+                .slice(0, 5)
+                .map((skip) => `line ${skip.line} (${skip.reason})`)
+                .join(', ')}
+              {measurements.skipped.length > 5
+                ? ` and ${measurements.skipped.length - 5} more`
+                : ''}
+              .
+            </p>
+          )}
+        </div>
+      )}
+      {current && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            {fits.map((fit, index) => (
+              <button
+                key={`${fit.response}-${index}`}
+                type="button"
+                onClick={() => setSelected(index)}
+                className={`rounded-full px-3 py-1 text-xs font-semibold ${
+                  fit === current
+                    ? 'bg-red-600 text-white'
+                    : 'border border-white/10 bg-white/5 text-neutral-300 hover:bg-white/15'
+                }`}
+              >
+                {fit.response}
+              </button>
+            ))}
+          </div>
+          {current.error && (
+            <div className="rounded-md border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+              {current.error}
+            </div>
+          )}
+          {current.model && (
+            <>
+              <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-neutral-300">
+                <span>
+                  R²: <span className="text-white">{formatStat(current.model.rSquared, 4)}</span>
+                </span>
+                <span>
+                  Adjusted R²:{' '}
+                  <span className="text-white">
+                    {formatStat(current.model.adjustedRSquared, 4)}
+                  </span>
+                </span>
+                <span>
+                  RMSE: <span className="text-white">{formatNumber(current.model.rmse)}</span>
+                </span>
+                <span>
+                  Observations:{' '}
+                  <span className="text-white">{current.model.observations}</span>
+                </span>
+              </div>
+              <div className="max-h-64 overflow-auto rounded-lg border border-white/10">
+                <table className="min-w-full divide-y divide-white/10 text-sm">
+                  <thead className="sticky top-0 bg-neutral-900 text-xs uppercase tracking-wider text-neutral-300">
+                    <tr>
+                      <th className="px-4 py-2 text-left">Term</th>
+                      <th className="px-4 py-2 text-right">Coefficient</th>
+                      <th className="px-4 py-2 text-right">Std. error</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/5 text-neutral-100">
+                    {current.model.terms.map((term) => (
+                      <tr key={term.label} className="hover:bg-white/5">
+                        <td className="px-4 py-1">{term.label}</td>
+                        <td className="px-4 py-1 text-right">{formatNumber(term.coefficient)}</td>
+                        <td className="px-4 py-1 text-right">
+                          {formatNumber(term.standardError)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-neutral-400">
+                Coefficients apply to amounts as ratios (0-1). Components that did not change over
+                the measured rows are left out of the model.
+              </p>
+              <details>
+                <summary className="cursor-pointer text-sm text-neutral-300">
+                  Residuals ({current.model.residuals.length})
+                </summary>
+                <div className="mt-2 max-h-64 overflow-auto rounded-lg border border-white/10">
+                  <table className="min-w-full divide-y divide-white/10 text-sm">
+                    <thead className="sticky top-0 bg-neutral-900 text-xs uppercase tracking-wider text-neutral-300">
+                      <tr>
+                        <th className="px-4 py-2 text-left">Line</th>
+                        <th className="px-4 py-2 text-right">Measured</th>
+                        <th className="px-4 py-2 text-right">Predicted</th>
+                        <th className="px-4 py-2 text-right">Residual</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-white/5 text-neutral-100">
+                      {current.model.residuals.map((residual) => (
+                        <tr key={residual.line} className="hover:bg-white/5">
+                          <td className="px-4 py-1">{residual.line}</td>
+                          <td className="px-4 py-1 text-right">
+                            {formatNumber(residual.observed)}
+                          </td>
+                          <td className="px-4 py-1 text-right">
+                            {formatNumber(residual.predicted)}
+                          </td>
+                          <td className="px-4 py-1 text-right">
+                            {formatNumber(residual.observed - residual.predicted)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </details>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  MixtureModel,
+  mixtureModels,
+  OptimalityCriterion,
+  subsetLabel,
+  SubsetResult,
+  SubsetSettings,
+} from '../lib/optimalDesign';
+import { RunRecord } from '../lib/runStore';
+
+// Chosen rows ready to be stored as a run of their own, in the source run's batch layout
+export interface SelectedSubset {
+  label: string;
+  rows: Float64Array;
+  scores: Float64Array | null;
+  rowCount: number;
+  elapsedMs: number;
+}
+
+interface OptimalSubsetPanelProps {
+  run: RunRecord;
+  // Stored row indices of the run that have to be in the design
+  forcedRows: number[];
+  onClearForced: () => void;
+  onSelected: (subset: SelectedSubset) => void;
+  disabled: boolean;
+  inputClassName: string;
+}
+
+interface SubsetSummary {
+  label: string;
+  result: SubsetResult;
+  candidates: number;
+  storedRows: number;
+}
+
+const criteria: { value: OptimalityCriterion; label: string; hint: string }[] = [
+  {
+    value: 'D',
+    label: 'D-optimal',
+    hint: 'Estimates the model coefficients as precisely as possible. Favours the edges and vertices of the region.',
+  },
+  {
+    value: 'I',
+    label: 'I-optimal',
+    hint: 'Keeps the average prediction variance over the candidates low. Places more runs inside the region, the better choice for optimising a formula.',
+  },
+];
+
+export default function OptimalSubsetPanel({
+  run,
+  forcedRows,
+  onClearForced,
+  onSelected,
+  disabled,
+  inputClassName,
+}: OptimalSubsetPanelProps) {
+  const [criterion, setCriterion] = useState<OptimalityCriterion>('D');
+  const [model, setModel] = useState<MixtureModel>('quadratic');
+  const [runs, setRuns] = useState<string>('20');
+  const [selecting, setSelecting] = useState<boolean>(false);
+  const [summary, setSummary] = useState<SubsetSummary | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string>('');
+  const workerRef = useRef<Worker | null>(null);
+
+  useEffect(
+    () => () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    },
+    []
+  );
+
+  const select = () => {
+    const settings: SubsetSettings = { criterion, model, runs: Number(runs), forced: forcedRows };
+    if (!Number.isInteger(settings.runs) || settings.runs < 1) {
+      setErrorMessage('Number of runs must be a whole number of at least 1.');
+      return;
+    }
+    workerRef.current?.terminate();
+    const worker = new Worker(new URL('./workers/subsetWorker.ts', import.meta.url), {
+      type: 'module',
+    });
+    workerRef.current = worker;
+    const startedAt = performance.now();
+    const storedRows = run.rowCount;
+    setSelecting(true);
+    setErrorMessage('');
+    const finish = () => {
+      worker.terminate();
+      if (workerRef.current === worker) workerRef.current = null;
+      setSelecting(false);
+    };
+    worker.onmessage = (event: MessageEvent) => {
+      const data = event.data || {};
+      if (data.type === 'error') {
+        setErrorMessage(data.message);
+      } else if (data.type === 'subset') {
+        // Large runs are sampled down, the label names the rows actually chosen from
+        const label = subsetLabel(settings, data.candidates);
+        setSummary({ label, result: data.result, candidates: data.candidates, storedRows });
+        onSelected({
+          label,
+          rows: data.rows,
+          scores: data.scores,
+          rowCount: data.result.rows.length,
+          elapsedMs: performance.now() - startedAt,
+        });
+      } else {
+        return;
+      }
+      finish();
+    };
+    worker.onerror = () => {
+      setErrorMessage('The design could not be selected.');
+      finish();
+    };
+    worker.postMessage({ type: 'select', run, settings });
+  };
+
+  const hint = criteria.find((option) => option.value === criterion)?.hint;
+
+  return (
+    <div className="space-y-4 rounded-2xl border border-white/10 bg-neutral-900/60 p-6">
+      <div>
+        <h2 className="text-lg font-semibold">Optimal Subset</h2>
+        <p className="text-sm text-neutral-400">
+          Pick the runs for the lab from the rows of this run: the subset that fits the chosen
+          mixture model best. Click row numbers in the table to force rows into the design.
+        </p>
+      </div>
+      <div className="flex flex-wrap items-end gap-3 text-sm text-neutral-300">
+        <div className="flex rounded-full border border-white/10 bg-white/5 p-1">
+          {criteria.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              className={`px-3 py-1 text-xs font-semibold ${
+                criterion === option.value ? 'rounded-full bg-red-600 text-white' : 'text-neutral-300'
+              }`}
+              onClick={() => setCriterion(option.value)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <label className="space-y-1">
+          <span className="block text-xs text-neutral-400">Model</span>
+          <select
+            className={`${inputClassName} w-44`}
+            value={model}
+            onChange={(e) => setModel(e.target.value as MixtureModel)}
+          >
+            {mixtureModels.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="block text-xs text-neutral-400">Runs</span>
+          <input
+            type="text"
+            inputMode="numeric"
+            className={`${inputClassName} w-20 text-right`}
+            value={runs}
+            onChange={(e) => {
+              if (/^\d*$/.test(e.target.value)) setRuns(e.target.value);
+            }}
+          />
+        </label>
+        <button
+          type="button"
+          onClick={select}
+          disabled={disabled || selecting}
+          className="rounded-md bg-red-600 px-4 py-2 text-sm font-semibold text-white shadow hover:bg-red-500 disabled:opacity-50"
+        >
+          {selecting ? 'Selecting...' : 'Select Runs'}
+        </button>
+      </div>
+      <p className="text-xs text-neutral-400">{hint}</p>
+      <div className="flex flex-wrap items-center gap-3 text-xs text-neutral-300">
+        <span>
+          {forcedRows.length === 0
+            ? 'No rows forced in.'
+            : `Forced in: rows ${[...forcedRows]
+                .sort((a, b) => a - b)
+                .map((row) => row + 1)
+                .join(', ')}`}
+        </span>
+        {forcedRows.length > 0 && (
+          <button
+            type="button"
+            onClick={onClearForced}
+            className="rounded-md border border-white/15 bg-white/5 px-3 py-1 text-xs font-semibold text-white hover:bg-white/15"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      {errorMessage && (
+        <div className="rounded-md border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+          {errorMessage}
+        </div>
+      )}
+      {summary && (
+        <div className="space-y-1 rounded-md border border-white/15 bg-white/5 px-4 py-3 text-sm text-neutral-200">
+          <p>{summary.label}</p>
+          <p>
+            D-efficiency{' '}
+            <span className="text-white">{summary.result.dEfficiency.toFixed(1)}%</span>
+            {' · '}G-efficiency{' '}
+            <span className="text-white">{summary.result.gEfficiency.toFixed(1)}%</span>
+            {' · '}Average prediction variance{' '}
+            <span className="text-white">{summary.result.averageVariance.toFixed(3)}</span>
+            {` (max ${summary.result.maxVariance.toFixed(3)})`}
+          </p>
+          <p className="text-xs text-neutral-400">
+            {summary.result.terms.length} terms over {summary.result.components.length} varying
+            components, computed on pseudo-components. D-efficiency compares with the best design
+            the candidates allow, G-efficiency with the least largest prediction variance any
+            design can reach; 100% cannot be beaten.
+            {summary.candidates < summary.storedRows
+              ? ` Chosen from an evenly spaced sample of ${summary.candidates.toLocaleString()} of the ${summary.storedRows.toLocaleString()} rows.`
+              : ''}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
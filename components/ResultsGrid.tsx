@@ -0,0 +1,389 @@
+"use client";
+
+import { useEffect, useRef, useState, UIEvent } from 'react';
+import { ColumnStats, ResultColumn, ResultQuery } from '../lib/resultTable';
+import { RunRecord } from '../lib/runStore';
+
+interface ResultsGridProps {
+  run: RunRecord;
+  unit: 'ratio' | 'percent';
+  // Stored row indices to highlight; with onToggleRow the row numbers become toggles
+  markedRows?: number[];
+  onToggleRow?: (row: number) => void;
+}
+
+interface FilterInput {
+  min: string;
+  max: string;
+}
+
+interface RowWindow {
+  queryId: number;
+  start: number;
+  rows: Float64Array;
+  indices: Uint32Array;
+}
+
+const rowHeight = 32;
+// Rows fetched above and below the visible ones so short scrolls need no round trip
+const overscan = 30;
+// Browsers stop growing scrollable elements somewhere past 10 million pixels, taller
+// views are scrolled proportionally instead
+const maxScrollHeight = 8000000;
+const columnWidth = 128;
+const numberWidth = 64;
+
+const parseFilter = (value: string) => {
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Virtualized grid over every stored row of a run; the rows live in a worker that filters,
+// searches and sorts them and hands back only the window being drawn
+export default function ResultsGrid({
+  run,
+  unit,
+  markedRows = [],
+  onToggleRow,
+}: ResultsGridProps) {
+  const [columns, setColumns] = useState<ResultColumn[]>([]);
+  const [stats, setStats] = useState<ColumnStats[]>([]);
+  const [storedRows, setStoredRows] = useState<number>(0);
+  const [viewRows, setViewRows] = useState<number>(0);
+  const [rowWindow, setRowWindow] = useState<RowWindow | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [querying, setQuerying] = useState<boolean>(false);
+  const [errorMessage, setErrorMessage] = useState<string>('');
+  const [sortColumn, setSortColumn] = useState<number | null>(null);
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+  const [filters, setFilters] = useState<Record<number, FilterInput>>({});
+  const [search, setSearch] = useState<string>('');
+  const [scrollTop, setScrollTop] = useState<number>(0);
+  // Height of the scroll area below the sticky header
+  const [viewportHeight, setViewportHeight] = useState<number>(320);
+  const workerRef = useRef<Worker | null>(null);
+  const queryIdRef = useRef<number>(0);
+  const viewIdRef = useRef<number>(-1);
+  // The same view id as state, so the row fetch runs again once the first view arrives
+  const [viewId, setViewId] = useState<number>(-1);
+  const scrollerRef = useRef<HTMLDivElement | null>(null);
+  const headerRef = useRef<HTMLDivElement | null>(null);
+  const requestedRef = useRef<string>('');
+  const scale = unit === 'percent' ? 100 : 1;
+
+  // Load the run into a fresh worker whenever another run is shown
+  useEffect(() => {
+    const worker = new Worker(new URL('./workers/resultsWorker.ts', import.meta.url), {
+      type: 'module',
+    });
+    workerRef.current = worker;
+    viewIdRef.current = -1;
+    setViewId(-1);
+    setLoading(true);
+    setErrorMessage('');
+    setColumns([]);
+    setRowWindow(null);
+    setSortColumn(null);
+    setFilters({});
+    setSearch('');
+    worker.onmessage = (event: MessageEvent) => {
+      const data = event.data;
+      if (!data) return;
+      if (data.type === 'opened') {
+        setColumns(data.columns);
+        setStats(data.stats);
+        setStoredRows(data.rowCount);
+        setViewRows(data.rowCount);
+        setLoading(false);
+      } else if (data.type === 'view') {
+        // Answers to superseded queries are dropped, only the latest view is shown
+        if (data.queryId !== queryIdRef.current) return;
+        viewIdRef.current = data.queryId;
+        setViewId(data.queryId);
+        setViewRows(data.rowCount);
+        setRowWindow(null);
+        setQuerying(false);
+        if (scrollerRef.current) scrollerRef.current.scrollTop = 0;
+        setScrollTop(0);
+      } else if (data.type === 'rows') {
+        if (data.queryId !== viewIdRef.current) return;
+        setRowWindow({
+          queryId: data.queryId,
+          start: data.start,
+          rows: data.rows,
+          indices: data.indices,
+        });
+      } else if (data.type === 'error') {
+        setErrorMessage(`Failed to load the stored rows: ${data.message}`);
+        setLoading(false);
+      }
+    };
+    worker.postMessage({ type: 'open', run });
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, [run.id, run.rowCount, run.models]);
+
+  // Re-run the query shortly after the last change to the sort, filters or search
+  useEffect(() => {
+    if (loading || !workerRef.current) return;
+    const timer = window.setTimeout(() => {
+      const query: ResultQuery = {
+        sortColumn,
+        sortDirection,
+        filters: Object.fromEntries(
+          Object.entries(filters).map(([column, filter]) => [
+            column,
+            { min: parseFilter(filter.min), max: parseFilter(filter.max) },
+          ])
+        ),
+        search,
+        scale,
+      };
+      queryIdRef.current += 1;
+      setQuerying(true);
+      workerRef.current?.postMessage({ type: 'query', queryId: queryIdRef.current, query });
+    }, 250);
+    return () => window.clearTimeout(timer);
+  }, [loading, sortColumn, sortDirection, filters, search, scale]);
+
+  const contentHeight = viewRows * rowHeight;
+  const scrollHeight = Math.min(contentHeight, maxScrollHeight);
+  // Pixels of content per pixel of scrollbar, 1 unless the view is taller than the cap
+  const stretch =
+    scrollHeight > viewportHeight
+      ? (contentHeight - viewportHeight) / (scrollHeight - viewportHeight)
+      : 1;
+  const contentTop = scrollTop * stretch;
+  const firstRow = Math.floor(contentTop / rowHeight);
+  const visibleRows = Math.ceil(viewportHeight / rowHeight) + 1;
+
+  // Fetch a window around the visible rows once they fall outside the one already held
+  useEffect(() => {
+    if (loading || viewId < 0 || !workerRef.current) return;
+    const covered =
+      rowWindow &&
+      rowWindow.queryId === viewId &&
+      firstRow >= rowWindow.start &&
+      Math.min(viewRows, firstRow + visibleRows) <=
+        rowWindow.start + rowWindow.rows.length / Math.max(1, columns.length);
+    if (covered) return;
+    const start = Math.max(0, firstRow - overscan);
+    // Still waiting for this window
+    const request = `${viewId}:${start}`;
+    if (requestedRef.current === request) return;
+    requestedRef.current = request;
+    workerRef.current.postMessage({
+      type: 'rows',
+      queryId: viewId,
+      start,
+      count: visibleRows + overscan * 2,
+    });
+  }, [loading, viewId, firstRow, visibleRows, viewRows, rowWindow, columns.length]);
+
+  const measureViewport = () => {
+    const scroller = scrollerRef.current;
+    if (!scroller) return;
+    setViewportHeight(
+      Math.max(rowHeight, scroller.clientHeight - (headerRef.current?.offsetHeight ?? 0))
+    );
+  };
+
+  useEffect(measureViewport, [loading, viewRows]);
+
+  const onScroll = (event: UIEvent<HTMLDivElement>) => {
+    setScrollTop(event.currentTarget.scrollTop);
+    measureViewport();
+  };
+
+  const toggleSort = (column: number) => {
+    if (sortColumn !== column) {
+      setSortColumn(column);
+      setSortDirection('asc');
+    } else if (sortDirection === 'asc') {
+      setSortDirection('desc');
+    } else {
+      setSortColumn(null);
+    }
+  };
+
+  const updateFilter = (column: number, field: keyof FilterInput, value: string) => {
+    setFilters((prev) => ({
+      ...prev,
+      [column]: { ...(prev[column] ?? { min: '', max: '' }), [field]: value },
+    }));
+  };
+
+  const formatValue = (column: ResultColumn, value: number) => {
+    if (column.kind === 'score' || column.kind === 'prediction') return Number.isFinite(value) ? value.toFixed(4) : '';
+    if (unit === 'percent') return `${(value * 100).toFixed(1)}%`;
+    return `${Number(value.toFixed(6))}`;
+  };
+
+  const formatBound = (column: ResultColumn, value: number | undefined) => {
+    if (value === undefined || !Number.isFinite(value)) return '';
+    if (column.kind === 'score' || column.kind === 'prediction') {
+      return `${Number(value.toFixed(4))}`;
+    }
+    return `${Number((value * scale).toFixed(4))}`;
+  };
+
+  const hasFilters =
+    search.trim() !== '' ||
+    Object.values(filters).some((filter) => filter.min.trim() !== '' || filter.max.trim() !== '');
+  const width = columns.length;
+  const visible: { index: number; values: number[] }[] = [];
+  if (rowWindow && width > 0) {
+    const end = Math.min(viewRows, firstRow + visibleRows);
+    for (let row = Math.max(firstRow, rowWindow.start); row < end; row += 1) {
+      const offset = (row - rowWindow.start) * width;
+      if (offset + width > rowWindow.rows.length) break;
+      visible.push({
+        index: rowWindow.indices[row - rowWindow.start],
+        values: Array.from(rowWindow.rows.subarray(offset, offset + width)),
+      });
+    }
+  }
+  const marked = new Set(markedRows);
+  const gridTemplate = {
+    gridTemplateColumns: `${numberWidth}px repeat(${width}, minmax(${columnWidth}px, 1fr))`,
+  };
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <input
+          type="search"
+          value={search}
+          onChange={(event) => setSearch(event.target.value)}
+          placeholder="Search components present or exact amounts, e.g. resin 0.2"
+          className="w-full max-w-md rounded-md border border-white/10 bg-neutral-950 px-3 py-2 text-sm text-white placeholder:text-neutral-500 focus:border-red-400 focus:outline-none"
+        />
+        <div className="flex items-center gap-3 text-sm text-neutral-300">
+          <span>
+            {loading
+              ? 'Loading stored rows…'
+              : `${viewRows.toLocaleString()} of ${storedRows.toLocaleString()} rows`}
+            {querying ? ' · updating…' : ''}
+          </span>
+          {hasFilters && (
+            <button
+              type="button"
+              className="rounded-md border border-white/15 bg-white/5 px-3 py-1 text-xs font-semibold text-white hover:bg-white/15"
+              onClick={() => {
+                setFilters({});
+                setSearch('');
+              }}
+            >
+              Clear Filters
+            </button>
+          )}
+        </div>
+      </div>
+      {errorMessage && (
+        <div className="rounded-md border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+          {errorMessage}
+        </div>
+      )}
+      <div
+        ref={scrollerRef}
+        onScroll={onScroll}
+        className="max-h-96 overflow-auto rounded-lg border border-white/10"
+      >
+        <div style={{ minWidth: numberWidth + width * columnWidth }}>
+          <div
+            ref={headerRef}
+            className="sticky top-0 z-10 grid bg-neutral-900 text-xs uppercase tracking-wider text-neutral-300"
+            style={gridTemplate}
+          >
+            <div className="px-3 py-2">#</div>
+            {columns.map((column, index) => (
+              <div key={`${column.label}-${index}`} className="space-y-1 px-4 py-2">
+                <button
+                  type="button"
+                  className={`flex w-full items-center justify-between gap-1 text-left uppercase ${
+                    column.kind === 'group' ? 'text-red-200' : ''
+                  }`}
+                  onClick={() => toggleSort(index)}
+                >
+                  <span className="truncate">{column.label}</span>
+                  <span className="text-red-300">
+                    {sortColumn === index ? (sortDirection === 'asc' ? '▲' : '▼') : ''}
+                  </span>
+                </button>
+                <div className="flex gap-1 normal-case">
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={filters[index]?.min ?? ''}
+                    onChange={(event) => updateFilter(index, 'min', event.target.value)}
+                    placeholder={formatBound(column, stats[index]?.min)}
+                    className="w-1/2 rounded border border-white/10 bg-neutral-950 px-1 py-0.5 text-xs text-white placeholder:text-neutral-600 focus:border-red-400 focus:outline-none"
+                  />
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={filters[index]?.max ?? ''}
+                    onChange={(event) => updateFilter(index, 'max', event.target.value)}
+                    placeholder={formatBound(column, stats[index]?.max)}
+                    className="w-1/2 rounded border border-white/10 bg-neutral-950 px-1 py-0.5 text-xs text-white placeholder:text-neutral-600 focus:border-red-400 focus:outline-none"
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="relative overflow-hidden" style={{ height: scrollHeight }}>
+            <div
+              className="absolute inset-x-0 top-0 divide-y divide-white/5 text-sm text-neutral-100"
+              style={{ transform: `translateY(${scrollTop + (firstRow * rowHeight - contentTop)}px)` }}
+            >
+              {visible.map((row, rowIndex) => (
+                <div
+                  key={firstRow + rowIndex}
+                  className="grid hover:bg-white/5"
+                  style={{ ...gridTemplate, height: rowHeight }}
+                >
+                  <div className="px-2 py-1 leading-6">
+                    {onToggleRow ? (
+                      <button
+                        type="button"
+                        title={marked.has(row.index) ? 'Release this row' : 'Force this row in'}
+                        onClick={() => onToggleRow(row.index)}
+                        className={`rounded px-1 text-xs ${
+                          marked.has(row.index)
+                            ? 'bg-red-600 text-white'
+                            : 'text-neutral-400 hover:bg-white/10 hover:text-white'
+                        }`}
+                      >
+                        {row.index + 1}
+                      </button>
+                    ) : (
+                      <span
+                        className={`px-1 text-xs ${
+                          marked.has(row.index) ? 'text-red-300' : 'text-neutral-500'
+                        }`}
+                      >
+                        {row.index + 1}
+                      </span>
+                    )}
+                  </div>
+                  {row.values.map((value, index) => (
+                    <div
+                      key={index}
+                      className="whitespace-nowrap px-4 py-1 text-right leading-6"
+                    >
+                      {formatValue(columns[index], value)}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { useMemo, useState } from 'react';
+import { diffSetups, SetupDiffRow } from '../lib/setupLibrary';
+import { Setup } from '../lib/setupSchema';
+
+interface SetupDiffDialogProps {
+  left: { name: string; setup: Setup };
+  right: { name: string; setup: Setup };
+  onClose: () => void;
+}
+
+const sections: SetupDiffRow['section'][] = ['Settings', 'Components', 'Groups', 'Constraints'];
+
+export default function SetupDiffDialog({ left, right, onClose }: SetupDiffDialogProps) {
+  const [changesOnly, setChangesOnly] = useState<boolean>(true);
+  const rows = useMemo(() => diffSetups(left.setup, right.setup), [left.setup, right.setup]);
+  const changedCount = rows.filter((row) => row.changed).length;
+  const shown = changesOnly ? rows.filter((row) => row.changed) : rows;
+
+  const cellClass = (row: SetupDiffRow, value: string | null) => {
+    if (value === null) return 'bg-neutral-950/60 text-neutral-500 italic';
+    if (!row.changed) return 'text-neutral-300';
+    return row.left === null || row.right === null
+      ? 'bg-emerald-500/10 text-emerald-200'
+      : 'bg-amber-500/10 text-amber-100';
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4">
+      <div className="flex max-h-[90vh] w-full max-w-5xl flex-col gap-4 rounded-2xl border border-white/10 bg-neutral-900 p-6 text-neutral-100">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <h2 className="text-xl font-semibold">Compare Setups</h2>
+            <p className="text-sm text-neutral-400">
+              {changedCount === 0
+                ? 'The two setups are identical.'
+                : `${changedCount.toLocaleString()} field(s) differ. Components and groups are matched by name.`}
+            </p>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-neutral-300">
+            <input
+              type="checkbox"
+              className="h-4 w-4 accent-red-500"
+              checked={changesOnly}
+              onChange={(e) => setChangesOnly(e.target.checked)}
+            />
+            Differences only
+          </label>
+        </div>
+        <div className="overflow-auto rounded-lg border border-white/10">
+          <table className="min-w-full divide-y divide-white/10 text-sm">
+            <thead className="sticky top-0 bg-neutral-800 text-xs uppercase tracking-wider text-neutral-300">
+              <tr>
+                <th className="px-4 py-2 text-left">Item</th>
+                <th className="px-4 py-2 text-left">Field</th>
+                <th className="px-4 py-2 text-left normal-case">{left.name}</th>
+                <th className="px-4 py-2 text-left normal-case">{right.name}</th>
+              </tr>
+            </thead>
+            {sections.map((section) => {
+              const sectionRows = shown.filter((row) => row.section === section);
+              if (sectionRows.length === 0) return null;
+              return (
+                <tbody key={section} className="divide-y divide-white/5">
+                  <tr className="bg-white/5">
+                    <td colSpan={4} className="px-4 py-1 text-xs font-semibold uppercase tracking-wider text-neutral-400">
+                      {section}
+                    </td>
+                  </tr>
+                  {sectionRows.map((row, index) => (
+                    <tr key={`${row.item}-${row.field}-${index}`}>
+                      <td className="px-4 py-1.5 text-neutral-200">{row.item}</td>
+                      <td className="px-4 py-1.5 text-neutral-400">{row.field}</td>
+                      <td className={`whitespace-pre-line px-4 py-1.5 ${cellClass(row, row.left)}`}>
+                        {row.left ?? 'Not in this setup'}
+                      </td>
+                      <td className={`whitespace-pre-line px-4 py-1.5 ${cellClass(row, row.right)}`}>
+                        {row.right ?? 'Not in this setup'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              );
+            })}
+          </table>
+        </div>
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-md border border-white/15 bg-white/5 px-4 py-2 text-sm font-semibold text-white hover:bg-white/15"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
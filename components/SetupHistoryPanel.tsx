@@ -0,0 +1,83 @@
+"use client";
+
+import { SetupHistory } from '../lib/setupHistory';
+
+interface SetupHistoryPanelProps {
+  history: SetupHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+  disabled: boolean;
+}
+
+export default function SetupHistoryPanel({
+  history,
+  onUndo,
+  onRedo,
+  onJump,
+  disabled,
+}: SetupHistoryPanelProps) {
+  const { entries, index } = history;
+  // Newest first; steps after the current one stay listed until a new edit replaces them
+  const order = entries.map((_, position) => position).reverse();
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-white/10 bg-neutral-900/60 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold">History</h2>
+          <p className="text-sm text-neutral-400">
+            Undo with Ctrl+Z (⌘Z), redo with Ctrl+Shift+Z or Ctrl+Y, or pick a step to return
+            to it.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            disabled={disabled || index <= 0}
+            onClick={onUndo}
+            className="rounded-md border border-white/15 bg-white/5 px-3 py-2 text-sm font-semibold text-white hover:bg-white/15 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Undo
+          </button>
+          <button
+            type="button"
+            disabled={disabled || index >= entries.length - 1}
+            onClick={onRedo}
+            className="rounded-md border border-white/15 bg-white/5 px-3 py-2 text-sm font-semibold text-white hover:bg-white/15 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Redo
+          </button>
+        </div>
+      </div>
+      {entries.length > 1 && (
+        <ol className="max-h-48 divide-y divide-white/5 overflow-y-auto rounded-lg border border-white/10 text-sm">
+          {order.map((position) => {
+            const entry = entries[position];
+            return (
+              <li key={`${position}-${entry.at}`}>
+                <button
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => onJump(position)}
+                  className={`flex w-full items-center justify-between gap-3 px-4 py-1.5 text-left hover:bg-white/10 disabled:cursor-not-allowed ${
+                    position === index
+                      ? 'bg-red-500/15 text-white'
+                      : position > index
+                        ? 'text-neutral-500'
+                        : 'text-neutral-200'
+                  }`}
+                >
+                  <span className="truncate">{entry.label}</span>
+                  <span className="shrink-0 text-xs text-neutral-500">
+                    {new Date(entry.at).toLocaleTimeString()}
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
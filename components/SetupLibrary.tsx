@@ -0,0 +1,335 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import {
+  createEntry,
+  LibraryEntry,
+  loadLibrary,
+  parseTags,
+  saveLibrary,
+} from '../lib/setupLibrary';
+import { parseSetup, Setup, toSetupFile } from '../lib/setupSchema';
+import SetupDiffDialog from './SetupDiffDialog';
+
+interface SetupLibraryProps {
+  // The working setup, saved into the library or compared against an entry
+  current: Setup;
+  onLoad: (setup: Setup, name: string) => void;
+  disabled: boolean;
+}
+
+const currentName = 'Current setup';
+
+const entrySetup = (entry: LibraryEntry) => parseSetup(JSON.stringify(entry.setup)).setup;
+
+export default function SetupLibrary({ current, onLoad, disabled }: SetupLibraryProps) {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [newName, setNewName] = useState<string>('');
+  const [tagFilter, setTagFilter] = useState<string>('');
+  // Entry being renamed or retagged, with the text typed so far
+  const [editing, setEditing] = useState<{ id: string; name: string; tags: string } | null>(
+    null
+  );
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [diff, setDiff] = useState<{
+    left: { name: string; setup: Setup };
+    right: { name: string; setup: Setup };
+  } | null>(null);
+
+  useEffect(() => {
+    setEntries(loadLibrary());
+  }, []);
+
+  const update = (next: LibraryEntry[]) => {
+    setEntries(next);
+    saveLibrary(next);
+  };
+
+  const tags = Array.from(new Set(entries.flatMap((entry) => entry.tags))).sort();
+  const visible = tagFilter ? entries.filter((entry) => entry.tags.includes(tagFilter)) : entries;
+
+  const saveCurrent = () => {
+    const name = newName.trim() || `Setup ${entries.length + 1}`;
+    update([...entries, createEntry(name, current, tagFilter ? [tagFilter] : [])]);
+    setNewName('');
+  };
+
+  const overwrite = (entry: LibraryEntry) => {
+    if (!window.confirm(`Replace "${entry.name}" with the current setup?`)) return;
+    update(
+      entries.map((item) =>
+        item.id === entry.id
+          ? { ...item, setup: toSetupFile(current), updatedAt: Date.now() }
+          : item
+      )
+    );
+  };
+
+  const duplicate = (entry: LibraryEntry) => {
+    const copy = createEntry(`${entry.name} (copy)`, entrySetup(entry), entry.tags);
+    const index = entries.findIndex((item) => item.id === entry.id);
+    update([...entries.slice(0, index + 1), copy, ...entries.slice(index + 1)]);
+  };
+
+  const remove = (entry: LibraryEntry) => {
+    if (!window.confirm(`Delete "${entry.name}" from the library?`)) return;
+    update(entries.filter((item) => item.id !== entry.id));
+    setCompareIds((prev) => prev.filter((id) => id !== entry.id));
+  };
+
+  const commitEdit = () => {
+    if (!editing) return;
+    update(
+      entries.map((item) =>
+        item.id === editing.id
+          ? {
+              ...item,
+              name: editing.name.trim() || item.name,
+              tags: parseTags(editing.tags),
+              updatedAt: Date.now(),
+            }
+          : item
+      )
+    );
+    setEditing(null);
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds((prev) =>
+      prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id].slice(-2)
+    );
+  };
+
+  const compareSelected = () => {
+    const [left, right] = compareIds.map((id) => entries.find((entry) => entry.id === id));
+    if (!left || !right) return;
+    setDiff({
+      left: { name: left.name, setup: entrySetup(left) },
+      right: { name: right.name, setup: entrySetup(right) },
+    });
+  };
+
+  return (
+    <div className="space-y-4 rounded-2xl border border-white/10 bg-neutral-900/60 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-semibold">Setup Library</h2>
+          <p className="text-sm text-neutral-400">
+            Named setups stored in this browser. Save the current setup, load another one, or
+            pick two to see how they differ.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={newName}
+            placeholder="Name"
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') saveCurrent();
+            }}
+            className="rounded-md border border-neutral-700 bg-neutral-950/70 px-2 py-1 text-sm text-white focus:border-red-500 focus:outline-none focus:ring-2 focus:ring-red-500/60"
+          />
+          <button
+            type="button"
+            onClick={saveCurrent}
+            className="rounded-md bg-red-600 px-3 py-2 text-sm font-semibold text-white hover:bg-red-500"
+          >
+            Save Current
+          </button>
+          <button
+            type="button"
+            disabled={compareIds.length !== 2}
+            onClick={compareSelected}
+            className="rounded-md border border-white/15 bg-white/5 px-3 py-2 text-sm font-semibold text-white hover:bg-white/15 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Compare Selected
+          </button>
+        </div>
+      </div>
+      {tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-neutral-400">Tags:</span>
+          {['', ...tags].map((tag) => (
+            <button
+              key={tag || 'all'}
+              type="button"
+              onClick={() => setTagFilter(tag)}
+              className={`rounded-full border px-3 py-1 font-semibold ${
+                tagFilter === tag
+                  ? 'border-red-500/60 bg-red-500/20 text-red-100'
+                  : 'border-white/15 bg-white/5 text-neutral-300 hover:bg-white/15'
+              }`}
+            >
+              {tag || 'All'}
+            </button>
+          ))}
+        </div>
+      )}
+      {visible.length === 0 ? (
+        <p className="text-sm text-neutral-500">
+          {entries.length === 0 ? 'No saved setups yet.' : 'No setups carry this tag.'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-white/10 text-sm">
+            <thead className="bg-white/5 text-xs uppercase tracking-wider text-neutral-300">
+              <tr>
+                <th className="px-4 py-2 text-left">Compare</th>
+                <th className="px-4 py-2 text-left">Name</th>
+                <th className="px-4 py-2 text-left">Tags</th>
+                <th className="px-4 py-2 text-right">Components</th>
+                <th className="px-4 py-2 text-left">Updated</th>
+                <th className="px-4 py-2 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {visible.map((entry) => {
+                const isEditing = editing?.id === entry.id;
+                return (
+                  <tr key={entry.id}>
+                    <td className="px-4 py-2">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 accent-red-500"
+                        checked={compareIds.includes(entry.id)}
+                        onChange={() => toggleCompare(entry.id)}
+                      />
+                    </td>
+                    <td className="px-4 py-2">
+                      {isEditing ? (
+                        <input
+                          type="text"
+                          value={editing.name}
+                          autoFocus
+                          onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitEdit();
+                            if (e.key === 'Escape') setEditing(null);
+                          }}
+                          className="w-full rounded-md border border-neutral-700 bg-neutral-950/70 px-2 py-1 text-sm text-white"
+                        />
+                      ) : (
+                        entry.name
+                      )}
+                    </td>
+                    <td className="px-4 py-2">
+                      {isEditing ? (
+                        <input
+                          type="text"
+                          value={editing.tags}
+                          placeholder="tag, another tag"
+                          onChange={(e) => setEditing({ ...editing, tags: e.target.value })}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitEdit();
+                            if (e.key === 'Escape') setEditing(null);
+                          }}
+                          className="w-full rounded-md border border-neutral-700 bg-neutral-950/70 px-2 py-1 text-sm text-white"
+                        />
+                      ) : (
+                        <div className="flex flex-wrap gap-1">
+                          {entry.tags.map((tag) => (
+                            <span
+                              key={tag}
+                              className="rounded-full bg-white/10 px-2 py-0.5 text-xs text-neutral-200"
+                            >
+                              {tag}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-right">{entry.setup.components.length}</td>
+                    <td className="px-4 py-2 whitespace-nowrap">
+                      {new Date(entry.updatedAt).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-2 text-right whitespace-nowrap">
+                      <div className="inline-flex gap-2">
+                        {isEditing ? (
+                          <>
+                            <button
+                              type="button"
+                              onClick={commitEdit}
+                              className="rounded-md bg-red-600 px-2 py-1 text-xs font-semibold text-white hover:bg-red-500"
+                            >
+                              Save
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => setEditing(null)}
+                              className="rounded-md border border-white/15 bg-white/5 px-2 py-1 text-xs font-semibold text-white hover:bg-white/15"
+                            >
+                              Cancel
+                            </button>
+                          </>
+                        ) : (
+                          <>
+                            <button
+                              type="button"
+                              disabled={disabled}
+                              onClick={() => onLoad(entrySetup(entry), entry.name)}
+                              className="rounded-md border border-white/15 bg-white/5 px-2 py-1 text-xs font-semibold text-white hover:bg-white/15 disabled:cursor-not-allowed disabled:opacity-50"
+                            >
+                              Load
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() =>
+                                setDiff({
+                                  left: { name: entry.name, setup: entrySetup(entry) },
+                                  right: { name: currentName, setup: current },
+                                })
+                              }
+                              className="rounded-md border border-white/15 bg-white/5 px-2 py-1 text-xs font-semibold text-white hover:bg-white/15"
+                            >
+                              Diff
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => overwrite(entry)}
+                              className="rounded-md border border-white/15 bg-white/5 px-2 py-1 text-xs font-semibold text-white hover:bg-white/15"
+                            >
+                              Update
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => duplicate(entry)}
+                              className="rounded-md border border-white/15 bg-white/5 px-2 py-1 text-xs font-semibold text-white hover:bg-white/15"
+                            >
+                              Duplicate
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() =>
+                                setEditing({
+                                  id: entry.id,
+                                  name: entry.name,
+                                  tags: entry.tags.join(', '),
+                                })
+                              }
+                              className="rounded-md border border-white/15 bg-white/5 px-2 py-1 text-xs font-semibold text-white hover:bg-white/15"
+                            >
+                              Rename / Tag
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => remove(entry)}
+                              className="rounded-md border border-red-500/40 bg-red-500/10 px-2 py-1 text-xs font-semibold text-red-200 hover:bg-red-500/20"
+                            >
+                              Delete
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {diff && <SetupDiffDialog left={diff.left} right={diff.right} onClose={() => setDiff(null)} />}
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+/// <reference lib="webworker" />
+
+import { analyzeSetup, AnalysisInput, SetupAnalysis } from '../../lib/analysis';
+
+type AnalyzeMessage = {
+  type: 'analyze';
+  payload: AnalysisInput;
+};
+
+type AnalysisMessage = {
+  type: 'analysis';
+  result: SetupAnalysis;
+};
+
+const ctx = self as unknown as DedicatedWorkerGlobalScope;
+
+ctx.onmessage = (event: MessageEvent<AnalyzeMessage>) => {
+  const data = event.data;
+  if (!data || data.type !== 'analyze') return;
+  const message: AnalysisMessage = { type: 'analysis', result: analyzeSetup(data.payload) };
+  ctx.postMessage(message);
+};
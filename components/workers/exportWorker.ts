@@ -0,0 +1,44 @@
+/// <reference lib="webworker" />
+
+import { buildExport, exportFileName, ExportOptions } from '../../lib/resultExport';
+import { appendToTable, createResultTable } from '../../lib/resultTable';
+import { readBatches, RunRecord } from '../../lib/runStore';
+
+type ExportMessage = {
+  type: 'export';
+  run: RunRecord;
+  options: ExportOptions;
+};
+
+type OutboundMessage =
+  | { type: 'exported'; blob: Blob; fileName: string }
+  | { type: 'error'; message: string };
+
+const ctx = self as unknown as DedicatedWorkerGlobalScope;
+
+// Reads the run straight from IndexedDB so the rows never pass through the page
+const exportRun = async (run: RunRecord, options: ExportOptions) => {
+  const table = createResultTable(run);
+  await readBatches(run.id, (batch) => {
+    appendToTable(table, run, batch);
+  });
+  const blob = await buildExport(table, run, options);
+  return { blob, fileName: exportFileName(options) };
+};
+
+ctx.onmessage = (event: MessageEvent<ExportMessage>) => {
+  const data = event.data;
+  if (!data || data.type !== 'export') return;
+  exportRun(data.run, data.options)
+    .then(({ blob, fileName }) => {
+      const message: OutboundMessage = { type: 'exported', blob, fileName };
+      ctx.postMessage(message);
+    })
+    .catch((error) => {
+      const message: OutboundMessage = {
+        type: 'error',
+        message: error instanceof Error ? error.message : String(error),
+      };
+      ctx.postMessage(message);
+    });
+};
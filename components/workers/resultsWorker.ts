@@ -0,0 +1,94 @@
+/// <reference lib="webworker" />
+
+import {
+  appendToTable,
+  columnStats,
+  ColumnStats,
+  createResultTable,
+  queryResults,
+  readView,
+  ResultColumn,
+  ResultQuery,
+  ResultTable,
+} from '../../lib/resultTable';
+import { readBatches, RunRecord } from '../../lib/runStore';
+
+type OpenMessage = {
+  type: 'open';
+  run: RunRecord;
+};
+
+type QueryMessage = {
+  type: 'query';
+  queryId: number;
+  query: ResultQuery;
+};
+
+type RowsMessage = {
+  type: 'rows';
+  queryId: number;
+  start: number;
+  count: number;
+};
+
+type InboundMessage = OpenMessage | QueryMessage | RowsMessage;
+
+type OutboundMessage =
+  | { type: 'opened'; runId: string; columns: ResultColumn[]; stats: ColumnStats[]; rowCount: number }
+  | { type: 'view'; queryId: number; rowCount: number }
+  | { type: 'rows'; queryId: number; start: number; rows: Float64Array; indices: Uint32Array }
+  | { type: 'error'; message: string };
+
+const ctx = self as unknown as DedicatedWorkerGlobalScope;
+
+// The whole run lives here, the page only asks for the rows it is about to draw
+let table: ResultTable | null = null;
+let view: Uint32Array = new Uint32Array(0);
+let viewId = -1;
+
+const post = (message: OutboundMessage, transfer: Transferable[] = []) =>
+  ctx.postMessage(message, transfer);
+
+const openRun = async (run: RunRecord) => {
+  const next = createResultTable(run);
+  await readBatches(run.id, (batch) => {
+    appendToTable(next, run, batch);
+  });
+  table = next;
+  view = Uint32Array.from({ length: next.rowCount }, (_, index) => index);
+  viewId = -1;
+  post({
+    type: 'opened',
+    runId: run.id,
+    columns: next.columns,
+    stats: columnStats(next),
+    rowCount: next.rowCount,
+  });
+};
+
+ctx.onmessage = (event: MessageEvent<InboundMessage>) => {
+  const data = event.data;
+  if (!data) return;
+  if (data.type === 'open') {
+    openRun(data.run).catch((error) =>
+      post({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+    );
+    return;
+  }
+  if (!table) return;
+  if (data.type === 'query') {
+    view = queryResults(table, data.query);
+    viewId = data.queryId;
+    post({ type: 'view', queryId: viewId, rowCount: view.length });
+    return;
+  }
+  if (data.type === 'rows' && data.queryId === viewId) {
+    const rows = readView(table, view, data.start, data.count);
+    // Stored positions of the rows, the numbers the grid shows
+    const indices = view.slice(data.start, data.start + rows.length / table.columns.length);
+    post({ type: 'rows', queryId: viewId, start: data.start, rows, indices }, [
+      rows.buffer,
+      indices.buffer,
+    ]);
+  }
+};
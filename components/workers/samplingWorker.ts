@@ -0,0 +1,28 @@
+/// <reference lib="webworker" />
+
+import { RunPlan } from '../../lib/runPlan';
+import { createDesign, Design, DesignSettings, SamplingError } from '../../lib/sampling';
+
+type DesignRequest = {
+  type: 'design';
+  plan: RunPlan;
+  settings: DesignSettings;
+};
+
+type DesignMessage = { type: 'design'; design: Design } | { type: 'error'; message: string };
+
+const ctx = self as unknown as DedicatedWorkerGlobalScope;
+
+ctx.onmessage = (event: MessageEvent<DesignRequest>) => {
+  const data = event.data;
+  if (!data || data.type !== 'design') return;
+  let message: DesignMessage;
+  try {
+    message = { type: 'design', design: createDesign(data.plan, data.settings) };
+  } catch (error) {
+    if (!(error instanceof SamplingError)) throw error;
+    message = { type: 'error', message: error.message };
+  }
+  if (message.type === 'design') ctx.postMessage(message, [message.design.rows.buffer]);
+  else ctx.postMessage(message);
+};
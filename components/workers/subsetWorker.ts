@@ -0,0 +1,88 @@
+/// <reference lib="webworker" />
+
+import {
+  maxSubsetCandidates,
+  selectOptimalSubset,
+  SubsetResult,
+  SubsetSettings,
+} from '../../lib/optimalDesign';
+import { appendToTable, createResultTable } from '../../lib/resultTable';
+import { readBatches, RunRecord } from '../../lib/runStore';
+
+type SelectMessage = {
+  type: 'select';
+  run: RunRecord;
+  // Forced rows are stored row indices of the run
+  settings: SubsetSettings;
+};
+
+type OutboundMessage =
+  | {
+      type: 'subset';
+      // Rows of the result are stored row indices of the run
+      result: SubsetResult;
+      candidates: number;
+      // The chosen rows as a batch of the new run: worker column order, scores alongside
+      rows: Float64Array;
+      scores: Float64Array | null;
+    }
+  | { type: 'error'; message: string };
+
+const ctx = self as unknown as DedicatedWorkerGlobalScope;
+
+const selectSubset = async (run: RunRecord, settings: SubsetSettings) => {
+  const table = createResultTable(run);
+  await readBatches(run.id, (batch) => {
+    appendToTable(table, run, batch);
+  });
+  // Every stored row is a candidate unless there are too many, forced rows always are
+  const stride = Math.max(1, table.rowCount / maxSubsetCandidates);
+  const pool = new Set(settings.forced);
+  for (let position = 0; position < table.rowCount; position += stride) {
+    pool.add(Math.floor(position));
+  }
+  const candidates = Array.from(pool).sort((a, b) => a - b);
+  const poolIndex = new Map(candidates.map((row, index) => [row, index]));
+  const values = run.columns.map((_, column) =>
+    Float64Array.from(candidates, (row) => table.values[column][row])
+  );
+  const chosen = selectOptimalSubset(values, candidates.length, run.columns, {
+    ...settings,
+    forced: settings.forced.map((row) => poolIndex.get(row) ?? -1),
+  });
+  const result = { ...chosen, rows: chosen.rows.map((index) => candidates[index]) };
+
+  // Second pass for the raw rows, so the new run is stored exactly like its source
+  const width = run.columnSource.length;
+  const wanted = new Map(result.rows.map((row, index) => [row, index]));
+  const rows = new Float64Array(result.rows.length * width);
+  const scores = run.rankedBy ? new Float64Array(result.rows.length) : null;
+  let offset = 0;
+  await readBatches(run.id, (batch) => {
+    for (let i = 0; i < batch.rowCount; i += 1) {
+      const target = wanted.get(offset + i);
+      if (target === undefined) continue;
+      rows.set(batch.rows.subarray(i * width, (i + 1) * width), target * width);
+      if (scores && batch.scores) scores[target] = batch.scores[i];
+    }
+    offset += batch.rowCount;
+  });
+  return { result, candidates: candidates.length, rows, scores };
+};
+
+ctx.onmessage = (event: MessageEvent<SelectMessage>) => {
+  const data = event.data;
+  if (!data || data.type !== 'select') return;
+  selectSubset(data.run, data.settings)
+    .then(({ result, candidates, rows, scores }) => {
+      const message: OutboundMessage = { type: 'subset', result, candidates, rows, scores };
+      ctx.postMessage(message, scores ? [rows.buffer, scores.buffer] : [rows.buffer]);
+    })
+    .catch((error) => {
+      const message: OutboundMessage = {
+        type: 'error',
+        message: error instanceof Error ? error.message : String(error),
+      };
+      ctx.postMessage(message);
+    });
+};
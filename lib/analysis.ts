@@ -0,0 +1,252 @@
+// Pre-run analysis of a normalized setup: the exact number of combinations that satisfy
+// the total band and the group mass/count limits, and the limits no combination can meet.
+// Works on the same integer grid as the generator so the count matches what a run yields.
+
+export type AnalysisGroupConfig = {
+  minMass?: number | null;
+  maxMass?: number | null;
+  fixedMass?: number | null;
+  minCount?: number | null;
+  maxCount?: number | null;
+};
+
+export type AnalysisInput = {
+  components: { name: string; group: string }[];
+  groupConfigs: Record<string, AnalysisGroupConfig>;
+  // Grid units; the balance component, when present, is last and ranges over [min, max]
+  ranges: number[][];
+  balance: { min: number; max: number } | null;
+  minTotal: number;
+  maxTotal: number;
+  scale: number;
+  percent: boolean;
+  // Other constraint kinds are present, so the count is only an upper bound
+  partial: boolean;
+};
+
+export type FeasibilityIssue = {
+  constraint: string;
+  message: string;
+};
+
+export type SetupAnalysis = {
+  raw: number;
+  // Null when the grid is too fine to count within a reasonable time
+  valid: number | null;
+  exact: boolean;
+  issues: FeasibilityIssue[];
+};
+
+// Largest total (in grid units) the counting tables are allowed to span
+const maxCountableUnits = 50000;
+
+const hasValue = (value: number | null | undefined): value is number =>
+  value !== null && value !== undefined;
+
+// Values a component can take, expanding the balance interval
+const valuesOf = (input: AnalysisInput, index: number) => {
+  if (input.balance && index === input.components.length - 1) {
+    const values: number[] = [];
+    for (let v = input.balance.min; v <= input.balance.max; v += 1) values.push(v);
+    return values;
+  }
+  return input.ranges[index];
+};
+
+const formatMass = (input: AnalysisInput, units: number) => {
+  const value = units / input.scale;
+  return input.percent ? `${Number((value * 100).toFixed(4))}%` : `${Number(value.toFixed(6))}`;
+};
+
+// Group mass window with a fixed mass folded into the min/max limits
+const groupMassBounds = (cfg: AnalysisGroupConfig) => {
+  const low = cfg.minMass ?? -Infinity;
+  const high = cfg.maxMass ?? Infinity;
+  if (!hasValue(cfg.fixedMass)) return { low, high };
+  return { low: Math.max(cfg.fixedMass, low), high: Math.min(cfg.fixedMass, high) };
+};
+
+// Smallest and largest value of a component, without expanding the balance interval
+const valueBounds = (input: AnalysisInput, index: number) => {
+  if (input.balance && index === input.components.length - 1) {
+    return { min: input.balance.min, max: input.balance.max };
+  }
+  const range = input.ranges[index];
+  return { min: range[0], max: range[range.length - 1] };
+};
+
+// Limits that are unreachable on their own, with the closest achievable value
+export const findFeasibilityIssues = (input: AnalysisInput): FeasibilityIssue[] => {
+  const issues: FeasibilityIssue[] = [];
+  const n = input.components.length;
+  const mins = input.components.map((_, index) => valueBounds(input, index).min);
+  const maxs = input.components.map((_, index) => valueBounds(input, index).max);
+  const lowest = mins.reduce((acc, value) => acc + value, 0);
+  const highest = maxs.reduce((acc, value) => acc + value, 0);
+  const totalLabel = input.balance ? 'Balanced total' : 'Total';
+  if (highest < input.minTotal) {
+    issues.push({
+      constraint: 'total',
+      message: `${totalLabel} minimum ${formatMass(input, input.minTotal)} is unreachable: max possible is ${formatMass(input, highest)}`,
+    });
+  }
+  if (lowest > input.maxTotal) {
+    issues.push({
+      constraint: 'total',
+      message: `${totalLabel} maximum ${formatMass(input, input.maxTotal)} is unreachable: min possible is ${formatMass(input, lowest)}`,
+    });
+  }
+  for (const [name, cfg] of Object.entries(input.groupConfigs)) {
+    const members = Array.from({ length: n }, (_, index) => index).filter(
+      (index) => input.components[index].group === name
+    );
+    const groupHighest = members.reduce((acc, index) => acc + maxs[index], 0);
+    const groupLowest = members.reduce((acc, index) => acc + mins[index], 0);
+    const possible = members.filter((index) => maxs[index] > 0).length;
+    const forced = members.filter((index) => mins[index] > 0).length;
+    const massChecks: [string, number | null | undefined][] = [
+      ['fixedMass', cfg.fixedMass],
+      ['minMass', cfg.minMass],
+    ];
+    for (const [field, value] of massChecks) {
+      if (hasValue(value) && value > groupHighest) {
+        issues.push({
+          constraint: `group:${name}:${field}`,
+          message: `Group ${name} ${field} ${formatMass(input, value)} is unreachable: max possible is ${formatMass(input, groupHighest)}`,
+        });
+      }
+    }
+    const upperChecks: [string, number | null | undefined][] = [
+      ['fixedMass', cfg.fixedMass],
+      ['maxMass', cfg.maxMass],
+    ];
+    for (const [field, value] of upperChecks) {
+      if (hasValue(value) && value < groupLowest) {
+        issues.push({
+          constraint: `group:${name}:${field}`,
+          message: `Group ${name} ${field} ${formatMass(input, value)} is unreachable: min possible is ${formatMass(input, groupLowest)}`,
+        });
+      }
+    }
+    if (hasValue(cfg.minCount) && cfg.minCount > possible) {
+      issues.push({
+        constraint: `group:${name}:minCount`,
+        message: `Group ${name} minCount ${cfg.minCount} is unreachable: only ${possible} component(s) can be present`,
+      });
+    }
+    if (hasValue(cfg.maxCount) && cfg.maxCount < forced) {
+      issues.push({
+        constraint: `group:${name}:maxCount`,
+        message: `Group ${name} maxCount ${cfg.maxCount} is unreachable: ${forced} component(s) always have a minimum above 0`,
+      });
+    }
+  }
+  return issues;
+};
+
+// Adds one component to a (mass, count) table of size (cap + 1) x (slots + 1)
+const addComponent = (
+  table: Float64Array,
+  cap: number,
+  slots: number,
+  values: number[]
+): Float64Array => {
+  const width = cap + 1;
+  const next = new Float64Array(table.length);
+  const positives = values.filter((v) => v > 0 && v <= cap);
+  if (values.includes(0)) {
+    next.set(table);
+  }
+  if (positives.length === 0) return next;
+  const step = positives.length > 1 ? positives[1] - positives[0] : 0;
+  const arithmetic =
+    positives.length > 1 && positives.every((v, i) => i === 0 || v - positives[i - 1] === step);
+  for (let c = 0; c < slots; c += 1) {
+    const row = table.subarray(c * width, (c + 1) * width);
+    const target = c + 1;
+    if (arithmetic) {
+      // Strided prefix sums: sum of row[m - start - k*step] for k < length in O(cap)
+      const start = positives[0];
+      const length = positives.length;
+      const prefix = new Float64Array(width);
+      for (let m = 0; m < width; m += 1) {
+        prefix[m] = row[m] + (m >= step ? prefix[m - step] : 0);
+      }
+      for (let m = start; m < width; m += 1) {
+        const top = m - start;
+        const below = top - length * step;
+        next[target * width + m] += prefix[top] - (below >= 0 ? prefix[below] : 0);
+      }
+    } else {
+      for (const v of positives) {
+        for (let m = v; m < width; m += 1) {
+          next[target * width + m] += row[m - v];
+        }
+      }
+    }
+  }
+  return next;
+};
+
+export const analyzeSetup = (input: AnalysisInput): SetupAnalysis => {
+  const n = input.components.length;
+  const raw = input.ranges.reduce(
+    (acc, range, index) => (input.balance && index === n - 1 ? acc : acc * range.length),
+    1
+  );
+  const issues = findFeasibilityIssues(input);
+  const exact = !input.partial;
+  if (issues.length > 0) {
+    return { raw, valid: 0, exact: true, issues };
+  }
+  const cap = Math.max(0, input.maxTotal);
+  const hasNegative = input.components.some((_, index) => valueBounds(input, index).min < 0);
+  if (cap > maxCountableUnits || hasNegative) {
+    return { raw, valid: null, exact, issues };
+  }
+
+  // Count each group on its own over (mass, present count), keep the cells that satisfy
+  // its limits, then convolve the group mass distributions into the total
+  const groupNames = Array.from(new Set(input.components.map((comp) => comp.group)));
+  let totals: Float64Array = new Float64Array(cap + 1);
+  totals[0] = 1;
+  for (const name of groupNames) {
+    const members = input.components.flatMap((comp, index) => (comp.group === name ? [index] : []));
+    const slots = members.length;
+    const width = cap + 1;
+    let table: Float64Array = new Float64Array(width * (slots + 1));
+    table[0] = 1;
+    for (const index of members) {
+      table = addComponent(table, cap, slots, valuesOf(input, index));
+    }
+    const cfg = input.groupConfigs[name] ?? {};
+    const { low, high } = groupMassBounds(cfg);
+    const minCount = cfg.minCount ?? 0;
+    const maxCount = cfg.maxCount ?? slots;
+    const masses = new Float64Array(width);
+    for (let c = Math.max(0, minCount); c <= Math.min(slots, maxCount); c += 1) {
+      for (let m = Math.max(0, Math.ceil(low)); m <= Math.min(cap, Math.floor(high)); m += 1) {
+        masses[m] += table[c * width + m];
+      }
+    }
+    const combined = new Float64Array(width);
+    for (let a = 0; a < width; a += 1) {
+      if (totals[a] === 0) continue;
+      for (let b = 0; a + b < width; b += 1) {
+        if (masses[b] !== 0) combined[a + b] += totals[a] * masses[b];
+      }
+    }
+    totals = combined;
+  }
+  let valid = 0;
+  for (let m = Math.max(0, input.minTotal); m <= cap; m += 1) {
+    valid += totals[m];
+  }
+  if (valid === 0) {
+    issues.push({
+      constraint: 'combined',
+      message: 'The total band and group limits cannot all be met at once',
+    });
+  }
+  return { raw, valid, exact, issues };
+};
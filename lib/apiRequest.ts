@@ -0,0 +1,96 @@
+// Reading API requests: the body is a setup file exactly as the app exports it, options ride
+// in the query string. Anything a client got wrong is an ApiError with the status to answer.
+
+import { NextResponse } from 'next/server';
+import { OutputFormat } from './engine';
+import { buildRunPlan, findSetupProblem } from './runPlan';
+import { parseSetup, SetupParseResult, SetupSchemaError } from './setupSchema';
+
+export class ApiError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+export type PageQuery = {
+  format: OutputFormat;
+  unit: 'ratio' | 'percent';
+  offset: number;
+  limit: number;
+};
+
+// Rows a single response may hold; larger exports page through offset
+export const defaultPageSize = 1000;
+export const maxPageSize = 100000;
+
+// Search steps one request may walk before it is turned down, some 40 s of one core;
+// API_STEP_LIMIT on the server changes it. Larger runs are what the app and the CLI are for.
+export const defaultStepLimit = 500000000;
+
+export const readStepLimit = () => {
+  const value = Number(process.env.API_STEP_LIMIT);
+  return Number.isInteger(value) && value > 0 ? value : defaultStepLimit;
+};
+
+export const contentTypes: Record<OutputFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+export const readSetupBody = async (request: Request): Promise<SetupParseResult> => {
+  const text = await request.text();
+  if (!text.trim()) throw new ApiError(400, 'The request body must be a setup file.');
+  try {
+    return parseSetup(text);
+  } catch (error) {
+    if (error instanceof SetupSchemaError) throw new ApiError(400, error.message);
+    throw error;
+  }
+};
+
+// Setup problems are well-formed requests the generator cannot run
+export const readRunPlan = async (request: Request) => {
+  const parsed = await readSetupBody(request);
+  const problem = findSetupProblem(parsed.setup);
+  if (problem) throw new ApiError(422, problem);
+  return { ...parsed, plan: buildRunPlan(parsed.setup) };
+};
+
+const readCount = (params: URLSearchParams, name: string, fallback: number, min: number) => {
+  const raw = params.get(name);
+  if (raw === null || raw === '') return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min) {
+    throw new ApiError(400, `${name} must be a whole number of at least ${min}.`);
+  }
+  return value;
+};
+
+export const readPageQuery = (params: URLSearchParams): PageQuery => {
+  const format = params.get('format') ?? 'ndjson';
+  if (format !== 'csv' && format !== 'json' && format !== 'ndjson') {
+    throw new ApiError(400, 'format must be ndjson, csv or json.');
+  }
+  const unit = params.get('unit') ?? 'ratio';
+  if (unit !== 'ratio' && unit !== 'percent') {
+    throw new ApiError(400, 'unit must be ratio or percent.');
+  }
+  const limit = readCount(params, 'limit', defaultPageSize, 1);
+  if (limit > maxPageSize) {
+    throw new ApiError(400, `limit must be at most ${maxPageSize.toLocaleString('en-US')}.`);
+  }
+  return { format, unit, offset: readCount(params, 'offset', 0, 0), limit };
+};
+
+export const errorResponse = (error: unknown) => {
+  if (error instanceof ApiError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error(error);
+  return NextResponse.json({ error: 'Unexpected server error.' }, { status: 500 });
+};
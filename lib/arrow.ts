@@ -0,0 +1,253 @@
+// Arrow IPC file writer for float64 columns, readable by pyarrow, polars, DuckDB and the
+// Arrow JS library. Metadata goes into the schema's custom_metadata. The flatbuffers the
+// format needs are encoded front to back by a small writer below, so every reference
+// points forward as the spec requires.
+
+export type ArrowColumn = {
+  name: string;
+  values: Float64Array;
+};
+
+type FbScalar = { kind: 'scalar'; size: 1 | 2 | 4 | 8; write: (view: DataView, at: number) => void };
+type FbTable = { kind: 'table'; fields: (FbScalar | FbObject | null)[] };
+type FbString = { kind: 'string'; value: string };
+type FbVector = { kind: 'vector'; items: FbObject[] };
+// Vector of structs whose largest member is 8 bytes wide
+type FbStructs = {
+  kind: 'structs';
+  count: number;
+  size: number;
+  write: (view: DataView, at: number) => void;
+};
+type FbObject = FbTable | FbString | FbVector | FbStructs;
+
+const encoder = new TextEncoder();
+
+const setInt64 = (view: DataView, at: number, value: number) => {
+  view.setUint32(at, value % 0x100000000, true);
+  view.setUint32(at + 4, Math.floor(value / 0x100000000), true);
+};
+
+const uint8 = (value: number): FbScalar => ({
+  kind: 'scalar',
+  size: 1,
+  write: (view, at) => view.setUint8(at, value),
+});
+const int16 = (value: number): FbScalar => ({
+  kind: 'scalar',
+  size: 2,
+  write: (view, at) => view.setInt16(at, value, true),
+});
+const int64 = (value: number): FbScalar => ({
+  kind: 'scalar',
+  size: 8,
+  write: (view, at) => setInt64(view, at, value),
+});
+const table = (...fields: (FbScalar | FbObject | null)[]): FbTable => ({ kind: 'table', fields });
+const string = (value: string): FbString => ({ kind: 'string', value });
+const vector = (items: FbObject[]): FbVector => ({ kind: 'vector', items });
+const int64Structs = (rows: number[][]): FbStructs => ({
+  kind: 'structs',
+  count: rows.length,
+  size: (rows[0]?.length ?? 0) * 8,
+  write: (view, at) =>
+    rows.forEach((row, index) =>
+      row.forEach((value, field) => setInt64(view, at + (index * row.length + field) * 8, value))
+    ),
+});
+
+const encodeFlatbuffer = (root: FbTable) => {
+  let bytes = new Uint8Array(1024);
+  let view = new DataView(bytes.buffer);
+  let pos = 4;
+  const reserve = (length: number) => {
+    if (pos + length <= bytes.length) return;
+    let size = bytes.length;
+    while (size < pos + length) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(bytes);
+    bytes = next;
+    view = new DataView(bytes.buffer);
+  };
+  const align = (alignment: number) => {
+    const padding = (alignment - (pos % alignment)) % alignment;
+    reserve(padding);
+    pos += padding;
+  };
+  const setOffset = (at: number, target: number) => view.setUint32(at, target - at, true);
+
+  const writeObject = (object: FbObject): number => {
+    if (object.kind === 'string') {
+      const data = encoder.encode(object.value);
+      align(4);
+      const start = pos;
+      reserve(4 + data.length + 1);
+      view.setUint32(start, data.length, true);
+      bytes.set(data, start + 4);
+      bytes[start + 4 + data.length] = 0;
+      pos = start + 4 + data.length + 1;
+      return start;
+    }
+    if (object.kind === 'structs') {
+      // Elements follow the length prefix and must sit on an 8 byte boundary
+      align(4);
+      if (pos % 8 === 0) {
+        reserve(4);
+        pos += 4;
+      }
+      const start = pos;
+      reserve(4 + object.count * object.size);
+      view.setUint32(start, object.count, true);
+      object.write(view, start + 4);
+      pos = start + 4 + object.count * object.size;
+      return start;
+    }
+    if (object.kind === 'vector') {
+      align(4);
+      const start = pos;
+      reserve(4 + object.items.length * 4);
+      view.setUint32(start, object.items.length, true);
+      pos = start + 4 + object.items.length * 4;
+      object.items.forEach((item, index) => setOffset(start + 4 + index * 4, writeObject(item)));
+      return start;
+    }
+    // Table: vtable first, then the table with its soffset, then everything it references
+    const layout = object.fields
+      .map((field, index) => ({
+        field,
+        index,
+        size: field === null ? 0 : field.kind === 'scalar' ? field.size : 4,
+        at: 0,
+      }))
+      .filter((entry) => entry.field !== null)
+      .sort((a, b) => b.size - a.size);
+    let tableSize = 4;
+    for (const entry of layout) {
+      tableSize += (entry.size - (tableSize % entry.size)) % entry.size;
+      entry.at = tableSize;
+      tableSize += entry.size;
+    }
+    align(2);
+    const vtable = pos;
+    const vtableSize = 4 + object.fields.length * 2;
+    reserve(vtableSize);
+    view.setUint16(vtable, vtableSize, true);
+    view.setUint16(vtable + 2, tableSize, true);
+    for (let i = 0; i < object.fields.length; i += 1) view.setUint16(vtable + 4 + i * 2, 0, true);
+    for (const entry of layout) view.setUint16(vtable + 4 + entry.index * 2, entry.at, true);
+    pos = vtable + vtableSize;
+    align(layout.some((entry) => entry.size === 8) ? 8 : 4);
+    const start = pos;
+    reserve(tableSize);
+    bytes.fill(0, start, start + tableSize);
+    view.setInt32(start, start - vtable, true);
+    pos = start + tableSize;
+    for (const entry of layout) {
+      const field = entry.field as FbScalar | FbObject;
+      if (field.kind === 'scalar') field.write(view, start + entry.at);
+    }
+    for (const entry of layout) {
+      const field = entry.field as FbScalar | FbObject;
+      if (field.kind !== 'scalar') setOffset(start + entry.at, writeObject(field));
+    }
+    return start;
+  };
+
+  setOffset(0, writeObject(root));
+  align(8);
+  return bytes.slice(0, pos);
+};
+
+// Format constants from Schema.fbs and Message.fbs
+const metadataVersion = 4;
+const schemaHeader = 1;
+const recordBatchHeader = 3;
+const floatingPointType = 3;
+const doublePrecision = 2;
+
+const schemaTable = (columns: ArrowColumn[], metadata: Record<string, string>) =>
+  table(
+    int16(0),
+    vector(
+      columns.map((column) =>
+        table(
+          string(column.name),
+          uint8(0),
+          uint8(floatingPointType),
+          table(int16(doublePrecision)),
+          null,
+          vector([])
+        )
+      )
+    ),
+    vector(Object.entries(metadata).map(([key, value]) => table(string(key), string(value))))
+  );
+
+const messageTable = (headerType: number, header: FbTable, bodyLength: number) =>
+  table(int16(metadataVersion), uint8(headerType), header, int64(bodyLength));
+
+// Continuation marker, metadata length, then the flatbuffer padded to 8 bytes
+const frameMessage = (message: Uint8Array) => {
+  const frame = new Uint8Array(8 + message.length);
+  const view = new DataView(frame.buffer);
+  view.setUint32(0, 0xffffffff, true);
+  view.setInt32(4, message.length, true);
+  frame.set(message, 8);
+  return frame;
+};
+
+export const buildArrowFile = (columns: ArrowColumn[], metadata: Record<string, string>) => {
+  const rowCount = columns[0]?.values.length ?? 0;
+  const magic = encoder.encode('ARROW1');
+  const parts: BlobPart[] = [magic, new Uint8Array(2)];
+  let offset = 8;
+
+  const schemaFrame = frameMessage(
+    encodeFlatbuffer(messageTable(schemaHeader, schemaTable(columns, metadata), 0))
+  );
+  parts.push(schemaFrame);
+  offset += schemaFrame.length;
+
+  // One record batch: an empty validity buffer (no nulls) and the values of each column
+  const buffers: number[][] = [];
+  let bodyLength = 0;
+  for (const column of columns) {
+    buffers.push([bodyLength, 0], [bodyLength, column.values.byteLength]);
+    bodyLength += column.values.byteLength;
+  }
+  const batchFrame = frameMessage(
+    encodeFlatbuffer(
+      messageTable(
+        recordBatchHeader,
+        table(int64(rowCount), int64Structs(columns.map(() => [rowCount, 0])), int64Structs(buffers)),
+        bodyLength
+      )
+    )
+  );
+  const batchBlock = [offset, batchFrame.length, bodyLength];
+  parts.push(batchFrame, ...columns.map((column) => column.values as BlobPart));
+  offset += batchFrame.length + bodyLength;
+
+  const endOfStream = new Uint8Array(8);
+  new DataView(endOfStream.buffer).setUint32(0, 0xffffffff, true);
+  parts.push(endOfStream);
+
+  // Footer: version, schema, no dictionaries, the record batch block
+  const blocks: FbStructs = {
+    kind: 'structs',
+    count: 1,
+    size: 24,
+    write: (view, at) => {
+      setInt64(view, at, batchBlock[0]);
+      view.setInt32(at + 8, batchBlock[1], true);
+      setInt64(view, at + 16, batchBlock[2]);
+    },
+  };
+  const footer = encodeFlatbuffer(
+    table(int16(metadataVersion), schemaTable(columns, metadata), int64Structs([]), blocks)
+  );
+  const footerLength = new Uint8Array(4);
+  new DataView(footerLength.buffer).setInt32(0, footer.length, true);
+  parts.push(footer, footerLength, magic);
+  return new Blob(parts, { type: 'application/vnd.apache.arrow.file' });
+};
@@ -0,0 +1,236 @@
+// Component lists from spreadsheets: delimited text (CSV, semicolon lists, tab separated
+// clipboard data) or the first sheet of an XLSX file, mapped column by column onto the
+// component fields. Mass values come out as ratios, like every component stored by the app.
+
+export type ImportField =
+  | 'ignore'
+  | 'name'
+  | 'group'
+  | 'min'
+  | 'max'
+  | 'step'
+  | 'fixed'
+  | 'price'
+  | 'property';
+
+export type ImportUnit = 'ratio' | 'percent';
+
+export type ImportedComponent = {
+  name: string;
+  group: string;
+  min: number;
+  max: number;
+  step: number;
+  fixed: number | null;
+  price: number | null;
+  properties: Record<string, number | null>;
+};
+
+export type ImportRowError = {
+  // Row number as shown by the spreadsheet, header included
+  row: number;
+  message: string;
+};
+
+export type ImportPreview = {
+  components: ImportedComponent[];
+  propertyNames: string[];
+  errors: ImportRowError[];
+};
+
+export const importFields: { value: ImportField; label: string }[] = [
+  { value: 'ignore', label: 'Ignore' },
+  { value: 'name', label: 'Name' },
+  { value: 'group', label: 'Group' },
+  { value: 'min', label: 'Min' },
+  { value: 'max', label: 'Max' },
+  { value: 'step', label: 'Step' },
+  { value: 'fixed', label: 'Fixed' },
+  { value: 'price', label: 'Price' },
+  { value: 'property', label: 'Property' },
+];
+
+// Fields holding masses, read in the import unit
+const massFields: ImportField[] = ['min', 'max', 'step', 'fixed'];
+
+const headerSynonyms: [ImportField, string[]][] = [
+  ['name', ['name', 'component', 'material', 'raw material', 'ingredient']],
+  ['group', ['group', 'family', 'category', 'class']],
+  ['min', ['min', 'minimum', 'lower', 'low', 'from']],
+  ['max', ['max', 'maximum', 'upper', 'high', 'to']],
+  ['step', ['step', 'increment', 'resolution']],
+  ['fixed', ['fixed', 'fix', 'set']],
+  ['price', ['price', 'cost', 'unit price']],
+];
+
+// Splits delimited text, honouring quoted fields. The delimiter is guessed from the first
+// line: tabs (clipboard data from spreadsheets), otherwise ';' or ',' by count
+export const parseDelimited = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const count = (char: string) => firstLine.split(char).length - 1;
+  const delimiter = firstLine.includes('\t') ? '\t' : count(';') > count(',') ? ';' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+export const normalizeHeader = (header: string) =>
+  header
+    .toLowerCase()
+    .replace(/\(.*?\)|\[.*?\]/g, '')
+    .replace(/[_\s]+/g, ' ')
+    .trim();
+
+// Best guess of the field behind each header; unknown non-empty headers become properties
+export const guessMapping = (headers: string[]): ImportField[] => {
+  const used = new Set<ImportField>();
+  return headers.map((header) => {
+    const normalized = normalizeHeader(header);
+    if (normalized === '') return 'ignore';
+    const match = headerSynonyms.find(
+      ([field, synonyms]) => !used.has(field) && synonyms.includes(normalized)
+    );
+    if (match) {
+      used.add(match[0]);
+      return match[0];
+    }
+    return 'property';
+  });
+};
+
+// Number typed in a cell: accepts a decimal comma and a trailing percent sign
+export const parseCell = (text: string | undefined) => {
+  const trimmed = (text ?? '').trim();
+  if (trimmed === '') return { value: null, percent: false, valid: true };
+  const percent = trimmed.endsWith('%');
+  const body = trimmed.replace(/%$/, '').trim();
+  const normalized = body.includes('.') ? body.replace(/,/g, '') : body.replace(',', '.');
+  const value = Number(normalized);
+  return Number.isFinite(value) && normalized !== ''
+    ? { value, percent, valid: true }
+    : { value: null, percent, valid: false };
+};
+
+const dataRows = (table: string[][], headerRow: boolean) =>
+  table
+    .map((cells, index) => ({ cells, row: index + 1 }))
+    .slice(headerRow ? 1 : 0)
+    .filter(({ cells }) => cells.some((cell) => cell.trim() !== ''));
+
+// Percent when a mass column header or value carries a percent sign or any mass is above 1,
+// ratios otherwise
+export const detectUnit = (
+  table: string[][],
+  headerRow: boolean,
+  mapping: ImportField[]
+): ImportUnit => {
+  const columns = mapping.flatMap((field, index) => (massFields.includes(field) ? [index] : []));
+  if (headerRow && columns.some((column) => (table[0]?.[column] ?? '').includes('%'))) {
+    return 'percent';
+  }
+  for (const { cells } of dataRows(table, headerRow)) {
+    for (const column of columns) {
+      const parsed = parseCell(cells[column]);
+      if (parsed.percent || (parsed.value !== null && parsed.value > 1)) return 'percent';
+    }
+  }
+  return 'ratio';
+};
+
+// `existingNames` are components the imported ones join, names they may not take again
+export const mapComponentRows = (
+  table: string[][],
+  headerRow: boolean,
+  mapping: ImportField[],
+  unit: ImportUnit,
+  existingNames: string[] = []
+): ImportPreview => {
+  const headers = headerRow ? table[0] ?? [] : [];
+  const label = (column: number) => headers[column]?.trim() || `Column ${column + 1}`;
+  const columnOf = (field: ImportField) => mapping.indexOf(field);
+  const propertyColumns = mapping.flatMap((field, index) => (field === 'property' ? [index] : []));
+  const propertyNames = propertyColumns.map(label);
+  const components: ImportedComponent[] = [];
+  const errors: ImportRowError[] = [];
+  const seen = new Set<string>();
+  const existing = new Set(existingNames.map((name) => name.trim().toLowerCase()));
+  if (columnOf('name') < 0) {
+    return {
+      components,
+      propertyNames,
+      errors: [{ row: 0, message: 'Map one column to the component name.' }],
+    };
+  }
+  for (const { cells, row } of dataRows(table, headerRow)) {
+    const problems: string[] = [];
+    const numberAt = (column: number, mass: boolean) => {
+      if (column < 0) return null;
+      const parsed = parseCell(cells[column]);
+      if (!parsed.valid) {
+        problems.push(`${label(column)} "${cells[column].trim()}" is not a number`);
+        return null;
+      }
+      if (parsed.value === null || !mass) return parsed.value;
+      return parsed.percent || unit === 'percent' ? parsed.value / 100 : parsed.value;
+    };
+    const name = (cells[columnOf('name')] ?? '').trim();
+    const group = columnOf('group') >= 0 ? (cells[columnOf('group')] ?? '').trim() : '';
+    const min = numberAt(columnOf('min'), true) ?? 0;
+    const max = numberAt(columnOf('max'), true) ?? 1;
+    const step = numberAt(columnOf('step'), true) ?? 0.1;
+    const fixed = numberAt(columnOf('fixed'), true);
+    const price = numberAt(columnOf('price'), false);
+    const properties: Record<string, number | null> = {};
+    propertyColumns.forEach((column, index) => {
+      properties[propertyNames[index]] = numberAt(column, false);
+    });
+    if (name === '') {
+      problems.push('name is empty');
+    } else if (seen.has(name.toLowerCase())) {
+      problems.push(`"${name}" appears more than once`);
+    } else if (existing.has(name.toLowerCase())) {
+      problems.push(`"${name}" is already a component`);
+    }
+    if (min > max) problems.push('min is above max');
+    if (step <= 0) problems.push('step must be greater than 0');
+    if (problems.length > 0) {
+      errors.push({ row, message: problems.join('; ') });
+      continue;
+    }
+    seen.add(name.toLowerCase());
+    components.push({ name, group: group || 'A', min, max, step, fixed, price, properties });
+  }
+  return { components, propertyNames, errors };
+};
@@ -0,0 +1,127 @@
+// Pieces of a run that sit around the search itself and are the same wherever it runs: how
+// the search space is cut into prefix tasks for a pool of workers, how ranked rows from
+// several workers are merged, and streaming CSV / JSON / NDJSON writers for the rows that
+// come out.
+
+import { RunPlan } from './runPlan';
+
+export type TaskPlan = {
+  // Leading enumerated components a task prefix pins
+  prefixLength: number;
+  taskCount: number;
+};
+
+export type OutputFormat = 'csv' | 'json' | 'ndjson';
+
+// Enough tasks for every worker to pull several, without the prefix list growing unbounded
+const tasksPerWorker = 16;
+const maxTasks = 50000;
+
+// The search is cut into prefix tasks over the leading enumerated components (never the
+// balance) and handed out on demand, so a worker that finishes early pulls more work
+// instead of idling while another one is stuck in a dense part of the tree
+export const planTasks = (plan: RunPlan, workerCount: number): TaskPlan => {
+  const { ranges, balanceComponent } = plan;
+  const enumeratedCount = balanceComponent ? ranges.length - 1 : ranges.length;
+  const targetTasks = workerCount * tasksPerWorker;
+  let prefixLength = 0;
+  let taskCount = 1;
+  while (
+    prefixLength < enumeratedCount &&
+    taskCount < targetTasks &&
+    taskCount * ranges[prefixLength].length <= Math.max(maxTasks, workerCount)
+  ) {
+    taskCount *= ranges[prefixLength].length;
+    prefixLength += 1;
+  }
+  return { prefixLength, taskCount };
+};
+
+// Task ids are mixed-radix numbers over the leading ranges, last component fastest
+export const taskPrefix = (ranges: number[][], prefixLength: number, taskId: number) => {
+  const prefix = new Array<number>(prefixLength);
+  let rest = taskId;
+  for (let depth = prefixLength - 1; depth >= 0; depth -= 1) {
+    prefix[depth] = rest % ranges[depth].length;
+    rest = Math.floor(rest / ranges[depth].length);
+  }
+  return prefix;
+};
+
+// One row of a search batch in setup column order
+export const readRow = (rows: Float64Array, rowIndex: number, columnSource: number[]) => {
+  const start = rowIndex * columnSource.length;
+  return columnSource.map((column) => rows[start + column]);
+};
+
+// Best `limit` rows over every worker's ranked rows; the score is the last value of a row
+export const mergeRanked = (rows: number[][], direction: 'min' | 'max', limit: number) => {
+  const scoreIndex = rows[0]?.length - 1;
+  return rows
+    .sort((a, b) =>
+      direction === 'max' ? b[scoreIndex] - a[scoreIndex] : a[scoreIndex] - b[scoreIndex]
+    )
+    .slice(0, limit);
+};
+
+// Twelve significant digits drop the float noise of the grid arithmetic
+const outputValue = (value: number, percent: boolean) =>
+  Number((percent ? value * 100 : value).toPrecision(12));
+
+// Writes rows as they arrive. Component masses are written in the chosen unit; a trailing
+// score column (ranked runs) is written as is.
+export const createRowWriter = (
+  format: OutputFormat,
+  columns: string[],
+  unit: 'ratio' | 'percent',
+  scoreLabel: string | null,
+  write: (chunk: string) => void
+) => {
+  const percent = unit === 'percent';
+  const labels = [
+    ...columns.map((column) => (percent ? `${column} (%)` : column)),
+    ...(scoreLabel ? [scoreLabel] : []),
+  ];
+  const values = (row: number[]) =>
+    row.map((value, index) => outputValue(value, percent && index < columns.length));
+  let written = 0;
+  if (format === 'csv') {
+    const quote = (value: string) =>
+      /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    write(`${labels.map(quote).join(',')}\n`);
+    return {
+      writeRows: (rows: number[][]) => {
+        if (rows.length === 0) return;
+        write(`${rows.map((row) => values(row).join(',')).join('\n')}\n`);
+        written += rows.length;
+      },
+      end: () => written,
+    };
+  }
+  const keys = labels.map((label) => JSON.stringify(label));
+  const toObject = (row: number[]) =>
+    `{${values(row).map((value, index) => `${keys[index]}:${value}`).join(',')}}`;
+  // One object per line and nothing around them, so a reader can act on each row as it lands
+  if (format === 'ndjson') {
+    return {
+      writeRows: (rows: number[][]) => {
+        if (rows.length === 0) return;
+        write(`${rows.map(toObject).join('\n')}\n`);
+        written += rows.length;
+      },
+      end: () => written,
+    };
+  }
+  write('[');
+  return {
+    writeRows: (rows: number[][]) => {
+      if (rows.length === 0) return;
+      write(`${written > 0 ? ',' : ''}\n${rows.map(toObject).join(',\n')}`);
+      written += rows.length;
+    },
+    end: () => {
+      write(written > 0 ? '\n]\n' : ']\n');
+      return written;
+    },
+  };
+};
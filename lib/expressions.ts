@@ -0,0 +1,384 @@
+// Small rule language evaluated against each generated row, e.g.
+//   A + 2*B <= 0.3
+//   if (Pigment > 0) Binder >= 20%
+//   count(Additives) <= 2
+// Rules are parsed into closures once; nothing is ever passed to eval.
+
+export type ExpressionComponent = {
+  name: string;
+  group: string;
+};
+
+export type CompiledRule = {
+  source: string;
+  line: number;
+  // Highest component index the rule reads, so it can be checked as soon as that
+  // component has a value instead of waiting for the full row
+  lastIndex: number;
+  test: (values: ArrayLike<number>) => boolean;
+};
+
+export class ExpressionError extends Error {
+  line: number;
+  column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`Rule line ${line}, column ${column}: ${message}`);
+    this.name = 'ExpressionError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+type Token =
+  | { kind: 'number'; value: number; column: number }
+  | { kind: 'name'; value: string; quoted: boolean; column: number }
+  | { kind: 'op'; value: string; column: number }
+  | { kind: 'end'; column: number };
+
+type Evaluator = (values: ArrayLike<number>) => number;
+
+type Node = {
+  evaluate: Evaluator;
+  lastIndex: number;
+};
+
+const operators = ['<=', '>=', '==', '!=', '&&', '||', '<', '>', '=', '!', '+', '-', '*', '/', '(', ')', ','];
+const keywordOperators: Record<string, string> = { and: '&&', or: '||', not: '!' };
+
+const tokenize = (text: string, line: number): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const column = i + 1;
+    if (/\s/.test(char)) {
+      i += 1;
+      continue;
+    }
+    if (/[0-9.]/.test(char)) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/.exec(text.slice(i));
+      if (!match) throw new ExpressionError(`Invalid number`, line, column);
+      let value = Number(match[0]);
+      i += match[0].length;
+      if (text[i] === '%') {
+        value /= 100;
+        i += 1;
+      }
+      tokens.push({ kind: 'number', value, column });
+      continue;
+    }
+    if (char === '"' || char === '`') {
+      const end = text.indexOf(char, i + 1);
+      if (end < 0) throw new ExpressionError(`Missing closing ${char}`, line, column);
+      tokens.push({ kind: 'name', value: text.slice(i + 1, end), quoted: true, column });
+      i = end + 1;
+      continue;
+    }
+    const word = /^[\p{L}_][\p{L}\p{N}_]*/u.exec(text.slice(i));
+    if (word) {
+      const lower = word[0].toLowerCase();
+      if (keywordOperators[lower]) {
+        tokens.push({ kind: 'op', value: keywordOperators[lower], column });
+      } else {
+        tokens.push({ kind: 'name', value: word[0], quoted: false, column });
+      }
+      i += word[0].length;
+      continue;
+    }
+    const op = operators.find((candidate) => text.startsWith(candidate, i));
+    if (!op) throw new ExpressionError(`Unexpected character "${char}"`, line, column);
+    tokens.push({ kind: 'op', value: op === '=' ? '==' : op, column });
+    i += op.length;
+  }
+  tokens.push({ kind: 'end', column: text.length + 1 });
+  return tokens;
+};
+
+const constant = (value: number): Node => ({ evaluate: () => value, lastIndex: -1 });
+
+const sumOf = (indices: number[]): Evaluator => {
+  return (values) => {
+    let total = 0;
+    for (const index of indices) total += values[index];
+    return total;
+  };
+};
+
+const countOf = (indices: number[]): Evaluator => {
+  return (values) => {
+    let count = 0;
+    for (const index of indices) {
+      if (values[index] > 0) count += 1;
+    }
+    return count;
+  };
+};
+
+const compileLine = (
+  text: string,
+  line: number,
+  components: ExpressionComponent[],
+  epsilon: number
+): Node => {
+  const tokens = tokenize(text, line);
+  let position = 0;
+  const peek = () => tokens[position];
+  const fail = (message: string, token: Token = peek()): never => {
+    throw new ExpressionError(message, line, token.column);
+  };
+  const isOp = (value: string) => {
+    const token = peek();
+    return token.kind === 'op' && token.value === value;
+  };
+  const expect = (value: string) => {
+    if (!isOp(value)) fail(`Expected "${value}"`);
+    position += 1;
+  };
+
+  const groupIndices = (name: string) =>
+    components.flatMap((comp, index) => (comp.group === name ? [index] : []));
+  const componentIndex = (name: string) => components.findIndex((comp) => comp.name === name);
+  const allIndices = components.map((_, index) => index);
+  const maxIndex = (indices: number[]) => (indices.length > 0 ? Math.max(...indices) : -1);
+
+  // Names resolve to a component first, then to the total mass of a group
+  const resolveName = (token: Extract<Token, { kind: 'name' }>): number[] => {
+    const index = componentIndex(token.value);
+    if (index >= 0) return [index];
+    const group = groupIndices(token.value);
+    if (group.length > 0) return group;
+    return fail(`Unknown component or group "${token.value}"`, token);
+  };
+
+  const combine = (left: Node, right: Node, evaluate: Evaluator): Node => ({
+    evaluate,
+    lastIndex: Math.max(left.lastIndex, right.lastIndex),
+  });
+
+  const parseCall = (token: Extract<Token, { kind: 'name' }>): Node => {
+    const fn = token.value.toLowerCase();
+    // Skip the function name and its opening parenthesis
+    position += 2;
+    if (fn === 'count' || fn === 'mass' || fn === 'sum') {
+      const arg = peek();
+      if (arg.kind !== 'name') return fail(`${fn}() expects a component or group name`);
+      position += 1;
+      expect(')');
+      const group = groupIndices(arg.value);
+      const indices = group.length > 0 ? group : resolveName(arg);
+      return {
+        evaluate: fn === 'count' ? countOf(indices) : sumOf(indices),
+        lastIndex: maxIndex(indices),
+      };
+    }
+    const args: Node[] = [parseOr()];
+    while (isOp(',')) {
+      position += 1;
+      args.push(parseOr());
+    }
+    expect(')');
+    const lastIndex = Math.max(...args.map((arg) => arg.lastIndex));
+    if (fn === 'abs' && args.length === 1) {
+      return { evaluate: (values) => Math.abs(args[0].evaluate(values)), lastIndex };
+    }
+    if ((fn === 'min' || fn === 'max') && args.length >= 2) {
+      const pick = fn === 'min' ? Math.min : Math.max;
+      return {
+        evaluate: (values) => pick(...args.map((arg) => arg.evaluate(values))),
+        lastIndex,
+      };
+    }
+    return fail(`Unknown function "${token.value}" with ${args.length} argument(s)`, token);
+  };
+
+  const parsePrimary = (): Node => {
+    const token = peek();
+    if (token.kind === 'number') {
+      position += 1;
+      return constant(token.value);
+    }
+    if (token.kind === 'op' && token.value === '(') {
+      position += 1;
+      const inner = parseOr();
+      expect(')');
+      return inner;
+    }
+    if (token.kind === 'name') {
+      const next = tokens[position + 1];
+      if (!token.quoted && token.value.toLowerCase() === 'if') {
+        return parseIf();
+      }
+      if (!token.quoted && next.kind === 'op' && next.value === '(') {
+        return parseCall(token);
+      }
+      position += 1;
+      if (!token.quoted && token.value.toLowerCase() === 'total' && componentIndex('total') < 0) {
+        return { evaluate: sumOf(allIndices), lastIndex: maxIndex(allIndices) };
+      }
+      const indices = resolveName(token);
+      const index = indices[0];
+      return {
+        evaluate: indices.length === 1 ? (values) => values[index] : sumOf(indices),
+        lastIndex: maxIndex(indices),
+      };
+    }
+    if (token.kind === 'end') return fail('Unexpected end of rule');
+    return fail(`Unexpected "${token.value}"`);
+  };
+
+  // if (condition) then [else otherwise]; a missing else always passes
+  const parseIf = (): Node => {
+    position += 1;
+    expect('(');
+    const condition = parseOr();
+    expect(')');
+    const then = parseOr();
+    let otherwise = constant(1);
+    const next = peek();
+    if (next.kind === 'name' && !next.quoted && next.value.toLowerCase() === 'else') {
+      position += 1;
+      otherwise = parseOr();
+    }
+    return {
+      evaluate: (values) =>
+        condition.evaluate(values) !== 0 ? then.evaluate(values) : otherwise.evaluate(values),
+      lastIndex: Math.max(condition.lastIndex, then.lastIndex, otherwise.lastIndex),
+    };
+  };
+
+  const parseUnary = (): Node => {
+    if (isOp('-')) {
+      position += 1;
+      const operand = parseUnary();
+      return { evaluate: (values) => -operand.evaluate(values), lastIndex: operand.lastIndex };
+    }
+    if (isOp('!')) {
+      position += 1;
+      const operand = parseUnary();
+      return {
+        evaluate: (values) => (operand.evaluate(values) === 0 ? 1 : 0),
+        lastIndex: operand.lastIndex,
+      };
+    }
+    return parsePrimary();
+  };
+
+  const parseProduct = (): Node => {
+    let left = parseUnary();
+    while (isOp('*') || isOp('/')) {
+      const op = (peek() as { value: string }).value;
+      position += 1;
+      const a = left;
+      const b = parseUnary();
+      left = combine(
+        a,
+        b,
+        op === '*'
+          ? (values) => a.evaluate(values) * b.evaluate(values)
+          : (values) => {
+              const divisor = b.evaluate(values);
+              return divisor === 0 ? 0 : a.evaluate(values) / divisor;
+            }
+      );
+    }
+    return left;
+  };
+
+  const parseSum = (): Node => {
+    let left = parseProduct();
+    while (isOp('+') || isOp('-')) {
+      const op = (peek() as { value: string }).value;
+      position += 1;
+      const a = left;
+      const b = parseProduct();
+      left = combine(
+        a,
+        b,
+        op === '+'
+          ? (values) => a.evaluate(values) + b.evaluate(values)
+          : (values) => a.evaluate(values) - b.evaluate(values)
+      );
+    }
+    return left;
+  };
+
+  // Comparisons tolerate the same rounding slack as the generator's own checks
+  const comparisons: Record<string, (a: number, b: number) => boolean> = {
+    '<': (a, b) => a < b - epsilon,
+    '<=': (a, b) => a <= b + epsilon,
+    '>': (a, b) => a > b + epsilon,
+    '>=': (a, b) => a >= b - epsilon,
+    '==': (a, b) => Math.abs(a - b) <= epsilon,
+    '!=': (a, b) => Math.abs(a - b) > epsilon,
+  };
+
+  const parseComparison = (): Node => {
+    const left = parseSum();
+    const token = peek();
+    if (token.kind === 'op' && comparisons[token.value]) {
+      position += 1;
+      const compare = comparisons[token.value];
+      const right = parseSum();
+      return combine(left, right, (values) =>
+        compare(left.evaluate(values), right.evaluate(values)) ? 1 : 0
+      );
+    }
+    return left;
+  };
+
+  const parseAnd = (): Node => {
+    let left = parseComparison();
+    while (isOp('&&')) {
+      position += 1;
+      const a = left;
+      const b = parseComparison();
+      left = combine(a, b, (values) =>
+        a.evaluate(values) !== 0 && b.evaluate(values) !== 0 ? 1 : 0
+      );
+    }
+    return left;
+  };
+
+  const parseOr = (): Node => {
+    let left = parseAnd();
+    while (isOp('||')) {
+      position += 1;
+      const a = left;
+      const b = parseAnd();
+      left = combine(a, b, (values) =>
+        a.evaluate(values) !== 0 || b.evaluate(values) !== 0 ? 1 : 0
+      );
+    }
+    return left;
+  };
+
+  const root = parseOr();
+  const rest = peek();
+  if (rest.kind !== 'end') {
+    fail(`Unexpected "${rest.kind === 'number' ? rest.value : (rest as { value: string }).value}"`);
+  }
+  return root;
+};
+
+// Compiles one rule per line; blank lines and lines starting with # are ignored.
+// Throws an ExpressionError pointing at the first problem found.
+export const compileRules = (
+  source: string,
+  components: ExpressionComponent[],
+  epsilon = 1e-9
+): CompiledRule[] => {
+  const rules: CompiledRule[] = [];
+  source.split(/\r?\n/).forEach((raw, lineIndex) => {
+    const text = raw.trim();
+    if (!text || text.startsWith('#')) return;
+    const node = compileLine(raw, lineIndex + 1, components, epsilon);
+    rules.push({
+      source: text,
+      line: lineIndex + 1,
+      lastIndex: node.lastIndex,
+      test: (values) => node.evaluate(values) !== 0,
+    });
+  });
+  return rules;
+};
@@ -0,0 +1,225 @@
+// Mixture response models: lab measurements read back from a CSV of generated rows, a
+// Scheffé polynomial fitted to each measured response by least squares, and predictions of
+// the fitted models for every row of a run. Rows are keyed by their component columns, so
+// an exported result file with a column added per measured response reads straight back in.
+
+import { normalizeHeader, parseCell, parseDelimited } from './componentImport';
+import { invertSymmetric, MixtureModel, mixtureModels, modelTermIndices } from './optimalDesign';
+
+export type Measurements = {
+  // Component amounts as ratios, in the order of the run's columns
+  compositions: number[][];
+  // File line of each composition
+  lines: number[];
+  responses: { name: string; values: (number | null)[] }[];
+  unit: 'ratio' | 'percent';
+  skipped: { line: number; reason: string }[];
+};
+
+export type ModelTerm = {
+  // Run columns multiplied together, a single one for a linear blending term
+  members: number[];
+  label: string;
+  coefficient: number;
+  standardError: number;
+};
+
+export type FittedModel = {
+  response: string;
+  model: MixtureModel;
+  terms: ModelTerm[];
+  observations: number;
+  // NaN when the response never changes or no degrees of freedom are left
+  rSquared: number;
+  adjustedRSquared: number;
+  rmse: number;
+  residuals: { line: number; observed: number; predicted: number }[];
+};
+
+export class MeasurementError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MeasurementError';
+  }
+}
+
+export const predictionLabel = (model: FittedModel) => `${model.response} (predicted)`;
+
+// `excluded` are headers that are not responses, such as the score or earlier predictions
+export const readMeasurements = (
+  text: string,
+  columns: string[],
+  excluded: string[]
+): Measurements => {
+  const table = parseDelimited(text);
+  const headers = table[0] ?? [];
+  const normalized = headers.map(normalizeHeader);
+  const componentColumns = columns.map((name) => normalized.indexOf(normalizeHeader(name)));
+  const missing = columns.filter((_, index) => componentColumns[index] < 0);
+  if (missing.length > 0) {
+    throw new MeasurementError(
+      `The file has no column for ${missing.join(', ')}. Measured rows are matched by the component columns of the generated rows.`
+    );
+  }
+  // Excluded headers match on their exact text: normalizing drops parentheses, and with them
+  // would take "Viscosity (predicted)" for the measured "Viscosity"
+  const folded = headers.map((header) => header.trim().toLowerCase());
+  const skip = new Set([
+    ...componentColumns,
+    ...excluded.map((label) => folded.indexOf(label.trim().toLowerCase())),
+  ]);
+  const body = table
+    .map((cells, index) => ({ cells, line: index + 1 }))
+    .slice(1)
+    .filter(({ cells }) => cells.some((cell) => cell.trim() !== ''));
+  const responseColumns = headers.flatMap((_, index) =>
+    !skip.has(index) &&
+    normalized[index] !== '' &&
+    body.some(({ cells }) => parseCell(cells[index]).value !== null)
+      ? [index]
+      : []
+  );
+  if (responseColumns.length === 0) {
+    throw new MeasurementError(
+      'No measured responses found. Add a column per response next to the component columns.'
+    );
+  }
+
+  // Percent when a component header or amount carries a percent sign or any amount is above 1
+  const percent =
+    componentColumns.some((column) => headers[column].includes('%')) ||
+    body.some(({ cells }) =>
+      componentColumns.some((column) => {
+        const parsed = parseCell(cells[column]);
+        return parsed.percent || (parsed.value !== null && parsed.value > 1);
+      })
+    );
+  const measurements: Measurements = {
+    compositions: [],
+    lines: [],
+    responses: responseColumns.map((column) => ({ name: headers[column].trim(), values: [] })),
+    unit: percent ? 'percent' : 'ratio',
+    skipped: [],
+  };
+  for (const { cells, line } of body) {
+    const amounts = componentColumns.map((column) => parseCell(cells[column]).value);
+    if (amounts.some((value) => value === null)) {
+      measurements.skipped.push({ line, reason: 'a component amount is missing or not a number' });
+      continue;
+    }
+    const values = responseColumns.map((column) => parseCell(cells[column]).value);
+    if (values.every((value) => value === null)) {
+      measurements.skipped.push({ line, reason: 'no response was measured' });
+      continue;
+    }
+    measurements.compositions.push(
+      amounts.map((value) => (percent ? (value as number) / 100 : (value as number)))
+    );
+    measurements.lines.push(line);
+    values.forEach((value, index) => measurements.responses[index].values.push(value));
+  }
+  if (measurements.compositions.length === 0) {
+    throw new MeasurementError('No row of the file has both component amounts and a response.');
+  }
+  return measurements;
+};
+
+export const predict = (model: FittedModel, amount: (column: number) => number) => {
+  let value = 0;
+  for (const term of model.terms) {
+    let product = term.coefficient;
+    for (const member of term.members) product *= amount(member);
+    value += product;
+  }
+  return value;
+};
+
+// Least squares on columns scaled to unit length, which keeps small additives and their
+// products from looking singular; the coefficients are scaled back to plain ratios
+export const fitMixtureModel = (
+  measurements: Measurements,
+  responseIndex: number,
+  model: MixtureModel,
+  columns: string[]
+): FittedModel => {
+  const response = measurements.responses[responseIndex];
+  const rows = response.values.flatMap((value, row) => (value === null ? [] : [row]));
+  const n = rows.length;
+  // Components constant over the measured rows are absorbed by the others
+  const varying = columns.flatMap((_, column) => {
+    const amounts = rows.map((row) => measurements.compositions[row][column]);
+    return Math.max(...amounts) - Math.min(...amounts) > 1e-12 ? [column] : [];
+  });
+  const modelName = mixtureModels.find((option) => option.value === model)?.label ?? model;
+  if (varying.length === 0) {
+    throw new MeasurementError(`${response.name}: every measured row has the same formula.`);
+  }
+  const termMembers = modelTermIndices(varying.length, model).map((members) =>
+    members.map((member) => varying[member])
+  );
+  const p = termMembers.length;
+  if (n < p) {
+    throw new MeasurementError(
+      `${response.name}: ${n} measured rows, the ${modelName} model of ${varying.length} varying components needs at least ${p}.`
+    );
+  }
+
+  const design = rows.map((row) =>
+    termMembers.map((members) =>
+      members.reduce((product, member) => product * measurements.compositions[row][member], 1)
+    )
+  );
+  const observed = rows.map((row) => response.values[row] as number);
+  const norms = termMembers.map((_, term) =>
+    Math.sqrt(design.reduce((sum, values) => sum + values[term] * values[term], 0))
+  );
+  const information = new Float64Array(p * p);
+  const moment = new Float64Array(p);
+  design.forEach((values, row) => {
+    for (let i = 0; i < p; i += 1) {
+      const xi = values[i] / norms[i];
+      moment[i] += xi * observed[row];
+      for (let j = 0; j < p; j += 1) information[i * p + j] += (xi * values[j]) / norms[j];
+    }
+  });
+  const inverted = norms.every((norm) => norm > 0) ? invertSymmetric(information, p) : null;
+  if (!inverted) {
+    throw new MeasurementError(
+      `${response.name}: the measured blends cannot separate every term of the ${modelName} model. Measure more varied rows or choose a smaller model.`
+    );
+  }
+  const { inverse } = inverted;
+  const scaled = Array.from({ length: p }, (_, i) =>
+    moment.reduce((sum, value, j) => sum + inverse[i * p + j] * value, 0)
+  );
+  const coefficients = scaled.map((value, term) => value / norms[term]);
+  const predicted = design.map((values) =>
+    values.reduce((sum, value, term) => sum + value * coefficients[term], 0)
+  );
+  const mean = observed.reduce((sum, value) => sum + value, 0) / n;
+  const residualSum = observed.reduce((sum, value, row) => sum + (value - predicted[row]) ** 2, 0);
+  const totalSum = observed.reduce((sum, value) => sum + (value - mean) ** 2, 0);
+  const freedom = n - p;
+  const variance = freedom > 0 ? residualSum / freedom : NaN;
+
+  return {
+    response: response.name,
+    model,
+    terms: termMembers.map((members, term) => ({
+      members,
+      label: members.map((member) => columns[member]).join('·'),
+      coefficient: coefficients[term],
+      standardError: Math.sqrt(variance * inverse[term * p + term]) / norms[term],
+    })),
+    observations: n,
+    rSquared: totalSum > 0 ? 1 - residualSum / totalSum : NaN,
+    adjustedRSquared:
+      totalSum > 0 && freedom > 0 ? 1 - variance / (totalSum / (n - 1)) : NaN,
+    rmse: Math.sqrt(variance),
+    residuals: rows.map((row, index) => ({
+      line: measurements.lines[row],
+      observed: observed[index],
+      predicted: predicted[index],
+    })),
+  };
+};
@@ -0,0 +1,453 @@
+// Optimal subset selection: picks the N rows of a result set that estimate a Scheffé mixture
+// model best, by the D criterion (smallest joint confidence region of the coefficients) or
+// the I criterion (smallest average prediction variance over the candidates). A greedy start
+// is improved by Fedorov exchanges, each one swapping a chosen row for a candidate; the
+// inverse information matrix is kept current with rank-one updates so a full sweep over the
+// candidates costs one pass over them per design row.
+
+export type MixtureModel = 'linear' | 'quadratic' | 'specialCubic';
+
+export type OptimalityCriterion = 'D' | 'I';
+
+export type SubsetSettings = {
+  criterion: OptimalityCriterion;
+  model: MixtureModel;
+  runs: number;
+  // Candidate indices that have to be in the design
+  forced: number[];
+};
+
+export type SubsetResult = {
+  // Candidate indices of the chosen rows, ascending
+  rows: number[];
+  terms: string[];
+  // Components that vary over the candidates; the model is fitted on these
+  components: string[];
+  // 100 * (det(X'X / n) / det M*)^(1/p), M* the continuous D-optimal design over the
+  // candidates; M* is bounded from above, so the figure never overstates the design
+  dEfficiency: number;
+  // 100 * p / (n * largest prediction variance over the candidates)
+  gEfficiency: number;
+  // Mean and largest of f'(X'X)^-1 f over the candidates, in units of the error variance
+  averageVariance: number;
+  maxVariance: number;
+  exchanges: number;
+};
+
+export class SubsetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubsetError';
+  }
+}
+
+export const mixtureModels: { value: MixtureModel; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'quadratic', label: 'Quadratic Scheffé' },
+  { value: 'specialCubic', label: 'Special cubic' },
+];
+
+export const maxSubsetTerms = 200;
+// Larger result sets are thinned to an evenly spaced pool of this many candidates
+export const maxSubsetCandidates = 20000;
+const maxPasses = 50;
+// Relative improvement an exchange has to bring to be made
+const tolerance = 1e-9;
+// The continuous optimum is refined until max d / p is this close to 1, or the work runs out
+const weightTolerance = 1e-4;
+const weightWork = 4e9;
+
+// Scheffé terms over k components: every component, then pairs, then triples
+export const modelTermIndices = (k: number, model: MixtureModel): number[][] => {
+  const terms: number[][] = [];
+  for (let a = 0; a < k; a += 1) terms.push([a]);
+  if (model === 'linear') return terms;
+  for (let a = 0; a < k; a += 1) {
+    for (let b = a + 1; b < k; b += 1) terms.push([a, b]);
+  }
+  if (model === 'quadratic') return terms;
+  for (let a = 0; a < k; a += 1) {
+    for (let b = a + 1; b < k; b += 1) {
+      for (let c = b + 1; c < k; c += 1) terms.push([a, b, c]);
+    }
+  }
+  return terms;
+};
+
+export const subsetLabel = (settings: SubsetSettings, candidates: number) => {
+  const model = mixtureModels.find((option) => option.value === settings.model)?.label ?? '';
+  const rows = candidates.toLocaleString();
+  return `${settings.criterion}-optimal, ${model}, ${settings.runs} of ${rows} rows`;
+};
+
+// Cholesky inverse of a symmetric positive definite matrix, null when it is (nearly) singular
+export const invertSymmetric = (matrix: Float64Array, p: number) => {
+  const lower = new Float64Array(p * p);
+  let largest = 0;
+  for (let i = 0; i < p; i += 1) largest = Math.max(largest, matrix[i * p + i]);
+  let logDet = 0;
+  for (let i = 0; i < p; i += 1) {
+    for (let j = 0; j <= i; j += 1) {
+      let sum = matrix[i * p + j];
+      for (let k = 0; k < j; k += 1) sum -= lower[i * p + k] * lower[j * p + k];
+      if (i === j) {
+        if (!(sum > largest * 1e-12)) return null;
+        lower[i * p + i] = Math.sqrt(sum);
+        logDet += Math.log(sum);
+      } else {
+        lower[i * p + j] = sum / lower[j * p + j];
+      }
+    }
+  }
+  // Invert the factor, then inverse = L^-T L^-1
+  const inverseLower = new Float64Array(p * p);
+  for (let i = 0; i < p; i += 1) {
+    inverseLower[i * p + i] = 1 / lower[i * p + i];
+    for (let j = 0; j < i; j += 1) {
+      let sum = 0;
+      for (let k = j; k < i; k += 1) sum -= lower[i * p + k] * inverseLower[k * p + j];
+      inverseLower[i * p + j] = sum / lower[i * p + i];
+    }
+  }
+  const inverse = new Float64Array(p * p);
+  for (let i = 0; i < p; i += 1) {
+    for (let j = 0; j <= i; j += 1) {
+      let sum = 0;
+      for (let k = i; k < p; k += 1) sum += inverseLower[k * p + i] * inverseLower[k * p + j];
+      inverse[i * p + j] = sum;
+      inverse[j * p + i] = sum;
+    }
+  }
+  return { inverse, logDet };
+};
+
+// Upper bound on log det of the continuous D-optimal design over the candidates. The
+// multiplicative algorithm moves weight to rows of high prediction variance d, rows that
+// cannot carry weight at the optimum are dropped (Harman & Pronzato), and the equivalence
+// theorem bounds what is left: log det M* <= log det M(w) + p log(max d / p).
+const continuousLogDetBound = (terms: Float64Array, n: number, p: number) => {
+  let active = Array.from({ length: n }, (_, row) => row);
+  const weight = new Float64Array(n).fill(1 / n);
+  const d = new Float64Array(n);
+  const product = new Float64Array(p);
+  let bound = Infinity;
+  for (let work = 0; work < weightWork; work += 2 * active.length * p * p) {
+    const information = new Float64Array(p * p);
+    for (const row of active) {
+      const offset = row * p;
+      for (let i = 0; i < p; i += 1) {
+        const fi = weight[row] * terms[offset + i];
+        if (fi === 0) continue;
+        for (let j = 0; j <= i; j += 1) information[i * p + j] += fi * terms[offset + j];
+      }
+    }
+    for (let i = 0; i < p; i += 1) {
+      for (let j = 0; j < i; j += 1) information[j * p + i] = information[i * p + j];
+    }
+    const inverted = invertSymmetric(information, p);
+    if (!inverted) break;
+    const { inverse } = inverted;
+    let maxD = 0;
+    for (const row of active) {
+      const offset = row * p;
+      for (let i = 0; i < p; i += 1) {
+        let sum = 0;
+        for (let j = 0; j < p; j += 1) sum += inverse[i * p + j] * terms[offset + j];
+        product[i] = sum;
+      }
+      let value = 0;
+      for (let i = 0; i < p; i += 1) value += product[i] * terms[offset + i];
+      d[row] = value;
+      maxD = Math.max(maxD, value);
+    }
+    bound = Math.min(bound, inverted.logDet + p * Math.log(maxD / p));
+    const epsilon = maxD / p - 1;
+    if (epsilon < weightTolerance) break;
+    const threshold = p * (1 + epsilon / 2 - Math.sqrt(epsilon * (4 + epsilon - 4 / p)) / 2);
+    active = active.filter((row) => d[row] >= threshold);
+    let total = 0;
+    for (const row of active) {
+      weight[row] *= d[row] / p;
+      total += weight[row];
+    }
+    for (const row of active) weight[row] /= total;
+  }
+  return bound;
+};
+
+// `values` holds one column per component, `names` their labels
+export const selectOptimalSubset = (
+  values: Float64Array[],
+  rowCount: number,
+  names: string[],
+  settings: SubsetSettings
+): SubsetResult => {
+  const { criterion, model, runs } = settings;
+  const forced = Array.from(new Set(settings.forced));
+  if (!Number.isInteger(runs) || runs < 1) {
+    throw new SubsetError('Number of runs must be a whole number of at least 1.');
+  }
+  if (runs > rowCount) {
+    throw new SubsetError(
+      `Only ${rowCount.toLocaleString()} rows to choose from, fewer than ${runs} runs.`
+    );
+  }
+  if (forced.some((row) => !Number.isInteger(row) || row < 0 || row >= rowCount)) {
+    throw new SubsetError('A forced row is not in the result set.');
+  }
+  if (forced.length > runs) {
+    throw new SubsetError(`${forced.length} rows are forced in, more than the ${runs} runs.`);
+  }
+
+  // L-pseudo-components of the components that vary, scaled so the widest blend sums to 1
+  const varying = values.flatMap((column, index) => {
+    let min = Infinity;
+    let max = -Infinity;
+    for (let row = 0; row < rowCount; row += 1) {
+      min = Math.min(min, column[row]);
+      max = Math.max(max, column[row]);
+    }
+    return max - min > 1e-12 ? [{ index, min }] : [];
+  });
+  if (varying.length === 0) {
+    throw new SubsetError('Every row has the same formula, there is nothing to choose between.');
+  }
+  let span = 0;
+  for (let row = 0; row < rowCount; row += 1) {
+    let sum = 0;
+    for (const { index, min } of varying) sum += values[index][row] - min;
+    span = Math.max(span, sum);
+  }
+  const k = varying.length;
+  const termIndices = modelTermIndices(k, model);
+  const p = termIndices.length;
+  const modelName = mixtureModels.find((option) => option.value === model)?.label ?? model;
+  if (p > maxSubsetTerms) {
+    throw new SubsetError(
+      `The ${modelName} model of ${k} varying components has ${p} terms, more than ${maxSubsetTerms}. Choose a smaller model.`
+    );
+  }
+  if (p > runs) {
+    throw new SubsetError(
+      `The ${modelName} model of ${k} varying components has ${p} terms and needs at least ${p} runs.`
+    );
+  }
+
+  const n = rowCount;
+  const terms = new Float64Array(n * p);
+  const blend = new Float64Array(k);
+  for (let row = 0; row < n; row += 1) {
+    varying.forEach(({ index, min }, position) => {
+      blend[position] = (values[index][row] - min) / span;
+    });
+    termIndices.forEach((members, term) => {
+      let value = 1;
+      for (const member of members) value *= blend[member];
+      terms[row * p + term] = value;
+    });
+  }
+
+  // Moments of the candidates, the region the I criterion averages prediction variance over
+  const moments = new Float64Array(p * p);
+  if (criterion === 'I') {
+    for (let row = 0; row < n; row += 1) {
+      const offset = row * p;
+      for (let i = 0; i < p; i += 1) {
+        const fi = terms[offset + i];
+        if (fi === 0) continue;
+        for (let j = 0; j <= i; j += 1) moments[i * p + j] += fi * terms[offset + j];
+      }
+    }
+    for (let i = 0; i < p; i += 1) {
+      for (let j = 0; j <= i; j += 1) {
+        moments[i * p + j] /= n;
+        moments[j * p + i] = moments[i * p + j];
+      }
+    }
+  }
+
+  // gains[j] = inverse * f_j, variance[j] = f_j' inverse f_j, weighted[j] = gains' W gains
+  let inverse = new Float64Array(p * p);
+  const gains = new Float64Array(n * p);
+  const variance = new Float64Array(n);
+  const weighted = new Float64Array(n);
+  let trace = 0;
+  const chosen = new Uint8Array(n);
+  const design: number[] = [];
+  const scratch = new Float64Array(p);
+  const weightedScratch = new Float64Array(p);
+
+  const dot = (a: Float64Array, aOffset: number, b: Float64Array, bOffset: number) => {
+    let sum = 0;
+    for (let i = 0; i < p; i += 1) sum += a[aOffset + i] * b[bOffset + i];
+    return sum;
+  };
+  const multiplyMoments = (source: Float64Array, sourceOffset: number, target: Float64Array) => {
+    for (let i = 0; i < p; i += 1) {
+      let sum = 0;
+      for (let j = 0; j < p; j += 1) sum += moments[i * p + j] * source[sourceOffset + j];
+      target[i] = sum;
+    }
+  };
+
+  // Adds (sign 1) or removes (sign -1) a row of the information matrix, Sherman-Morrison
+  const update = (row: number, sign: number) => {
+    const m = gains.slice(row * p, row * p + p);
+    const denominator = 1 + sign * variance[row];
+    for (let i = 0; i < p; i += 1) {
+      for (let j = 0; j < p; j += 1) inverse[i * p + j] -= (sign * m[i] * m[j]) / denominator;
+    }
+    let mWm = 0;
+    if (criterion === 'I') {
+      multiplyMoments(m, 0, weightedScratch);
+      mWm = dot(m, 0, weightedScratch, 0);
+      trace -= (sign * mWm) / denominator;
+    }
+    for (let j = 0; j < n; j += 1) {
+      const offset = j * p;
+      const c = dot(terms, offset, m, 0);
+      if (c === 0) continue;
+      const t = (sign * c) / denominator;
+      if (criterion === 'I') {
+        weighted[j] += -2 * t * dot(weightedScratch, 0, gains, offset) + t * t * mWm;
+      }
+      for (let i = 0; i < p; i += 1) gains[offset + i] -= t * m[i];
+      variance[j] -= t * c;
+    }
+  };
+
+  // Recomputes everything from the chosen rows, clearing the drift of the rank-one updates
+  const refresh = () => {
+    const information = new Float64Array(p * p);
+    for (const row of design) {
+      const offset = row * p;
+      for (let i = 0; i < p; i += 1) {
+        for (let j = 0; j <= i; j += 1) {
+          information[i * p + j] += terms[offset + i] * terms[offset + j];
+        }
+      }
+    }
+    for (let i = 0; i < p; i += 1) {
+      for (let j = 0; j < i; j += 1) information[j * p + i] = information[i * p + j];
+    }
+    const inverted = invertSymmetric(information, p);
+    if (!inverted) {
+      throw new SubsetError(
+        'The rows cannot support every term of this model: some components always appear together or in fixed proportion. Choose a smaller model.'
+      );
+    }
+    inverse = inverted.inverse;
+    trace = 0;
+    for (let j = 0; j < n; j += 1) {
+      const offset = j * p;
+      for (let i = 0; i < p; i += 1) gains[offset + i] = dot(inverse, i * p, terms, offset);
+      variance[j] = dot(gains, offset, terms, offset);
+      if (criterion === 'I') {
+        multiplyMoments(gains, offset, scratch);
+        weighted[j] = dot(gains, offset, scratch, 0);
+      }
+      trace += variance[j];
+    }
+    trace /= n;
+    return inverted.logDet;
+  };
+
+  // Greedy start on a slightly regularized matrix: forced rows, then the row whose prediction
+  // variance is largest until the design is full
+  let scale = 0;
+  for (let j = 0; j < n * p; j += 1) scale += terms[j] * terms[j];
+  const ridge = Math.max(1e-12, (scale / n) * 1e-8);
+  for (let i = 0; i < p; i += 1) inverse[i * p + i] = 1 / ridge;
+  for (let j = 0; j < n; j += 1) {
+    const offset = j * p;
+    for (let i = 0; i < p; i += 1) gains[offset + i] = terms[offset + i] / ridge;
+    variance[j] = dot(gains, offset, terms, offset);
+    if (criterion === 'I') {
+      multiplyMoments(gains, offset, scratch);
+      weighted[j] = dot(gains, offset, scratch, 0);
+    }
+  }
+  const add = (row: number) => {
+    update(row, 1);
+    chosen[row] = 1;
+    design.push(row);
+  };
+  forced.forEach(add);
+  while (design.length < runs) {
+    let best = -1;
+    for (let j = 0; j < n; j += 1) {
+      if (!chosen[j] && (best < 0 || variance[j] > variance[best])) best = j;
+    }
+    add(best);
+  }
+  let logDet = refresh();
+
+  // Fedorov exchanges on the rows that are not forced
+  const isForced = new Set(forced);
+  let exchanges = 0;
+  for (let pass = 0; pass < maxPasses; pass += 1) {
+    let improved = false;
+    for (let position = 0; position < design.length; position += 1) {
+      const out = design[position];
+      if (isForced.has(out)) continue;
+      const outOffset = out * p;
+      const dOut = variance[out];
+      if (criterion === 'I') multiplyMoments(gains, outOffset, weightedScratch);
+      let best = -1;
+      let bestGain = tolerance;
+      for (let j = 0; j < n; j += 1) {
+        if (chosen[j]) continue;
+        const dIn = variance[j];
+        const cross = dot(gains, outOffset, terms, j * p);
+        let gain: number;
+        if (criterion === 'D') {
+          // det(new) / det(old) - 1
+          gain = dIn - dOut - dOut * dIn + cross * cross;
+        } else {
+          const added = 1 + dIn;
+          const remaining = 1 - (dOut - (cross * cross) / added);
+          if (remaining <= 1e-12) continue;
+          const r = dot(weightedScratch, 0, gains, j * p);
+          const removedWeight =
+            weighted[out] -
+            (2 * cross * r) / added +
+            (cross * cross * weighted[j]) / (added * added);
+          const change = -weighted[j] / added + removedWeight / remaining;
+          gain = -change / trace;
+        }
+        if (gain > bestGain) {
+          bestGain = gain;
+          best = j;
+        }
+      }
+      if (best < 0) continue;
+      update(best, 1);
+      update(out, -1);
+      chosen[best] = 1;
+      chosen[out] = 0;
+      design[position] = best;
+      exchanges += 1;
+      improved = true;
+    }
+    logDet = refresh();
+    if (!improved) break;
+  }
+
+  let maxVariance = 0;
+  for (let j = 0; j < n; j += 1) maxVariance = Math.max(maxVariance, variance[j]);
+  return {
+    rows: [...design].sort((a, b) => a - b),
+    terms: termIndices.map((members) =>
+      members.map((member) => names[varying[member].index]).join('·')
+    ),
+    components: varying.map(({ index }) => names[index]),
+    dEfficiency: Math.min(
+      100,
+      100 * Math.exp((logDet - p * Math.log(runs) - continuousLogDetBound(terms, n, p)) / p)
+    ),
+    gEfficiency: (100 * p) / (runs * maxVariance),
+    averageVariance: trace,
+    maxVariance,
+    exchanges,
+  };
+};
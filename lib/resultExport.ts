@@ -0,0 +1,278 @@
+// Result exports of a stored run: CSV, an XLSX workbook with a metadata sheet describing
+// the run and its setup, and an Arrow IPC file for columnar tools. Values are written in
+// the chosen unit; the decimal separator only matters for CSV, the other formats store
+// numbers natively.
+
+import { buildArrowFile } from './arrow';
+import { mixtureModels } from './optimalDesign';
+import { ResultTable } from './resultTable';
+import { RunRecord, RunSetup } from './runStore';
+import { designLabel, readDesignSettings } from './sampling';
+import { buildWorkbook, Cell, maxSheetRows } from './xlsx';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'arrow';
+
+export type ExportOptions = {
+  format: ExportFormat;
+  unit: 'ratio' | 'percent';
+  decimalSeparator: '.' | ',';
+};
+
+export const exportFormats: { value: ExportFormat; label: string; extension: string }[] = [
+  { value: 'csv', label: 'CSV', extension: 'csv' },
+  { value: 'xlsx', label: 'Excel (XLSX)', extension: 'xlsx' },
+  { value: 'arrow', label: 'Arrow (IPC)', extension: 'arrow' },
+];
+
+export const exportFileName = (options: ExportOptions) =>
+  `combinations.${exportFormats.find((format) => format.value === options.format)?.extension}`;
+
+// Exported columns: components and the score, group totals are a view-only convenience
+const exportColumns = (table: ResultTable, options: ExportOptions) =>
+  table.columns.flatMap((column, index) => {
+    if (column.kind === 'group') return [];
+    const percent = column.kind === 'component' && options.unit === 'percent';
+    return [{ index, label: percent ? `${column.label} (%)` : column.label, percent }];
+  });
+
+// Twelve significant digits drop the float noise of the grid arithmetic
+const exportValue = (value: number, percent: boolean) =>
+  Number((percent ? value * 100 : value).toPrecision(12));
+
+const buildCsv = (table: ResultTable, options: ExportOptions) => {
+  const columns = exportColumns(table, options);
+  const comma = options.decimalSeparator === ',';
+  // A decimal comma needs another field delimiter, spreadsheets in those locales expect ';'
+  const delimiter = comma ? ';' : ',';
+  const quote = (value: string) =>
+    /[",;\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  const parts: string[] = [`${columns.map((column) => quote(column.label)).join(delimiter)}\n`];
+  let lines: string[] = [];
+  for (let row = 0; row < table.rowCount; row += 1) {
+    lines.push(
+      columns
+        .map((column) => {
+          const text = `${exportValue(table.values[column.index][row], column.percent)}`;
+          return comma ? text.replace('.', ',') : text;
+        })
+        .join(delimiter)
+    );
+    if (lines.length === 10000) {
+      parts.push(`${lines.join('\n')}\n`);
+      lines = [];
+    }
+  }
+  if (lines.length > 0) parts.push(`${lines.join('\n')}\n`);
+  return new Blob(parts, { type: 'text/csv;charset=utf-8;' });
+};
+
+const setupValue = (value: number | string | null | undefined): Cell => {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : String(value);
+};
+
+// Masses are stored as ratios, text still being typed is in the input unit; the sheet gives
+// every mass in the input unit it is labelled with
+const massCell = (value: number | string | null | undefined, unit: RunSetup['inputUnit']): Cell => {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(typeof value === 'string' ? value.replace(',', '.') : value);
+  if (!Number.isFinite(parsed)) return String(value);
+  if (typeof value === 'string' || unit !== 'percent') return parsed;
+  return Number((parsed * 100).toPrecision(12));
+};
+
+const levelsCell = (comp: RunSetup['components'][number], unit: RunSetup['inputUnit']): Cell => {
+  const { levels } = comp;
+  if (!levels) return null;
+  if (levels.mode === 'list') {
+    return levels.values.map((value) => massCell(value, unit)).join('; ');
+  }
+  const count = setupValue(levels.count);
+  return `Geometric ${massCell(levels.start, unit) ?? ''} to ${massCell(levels.end, unit) ?? ''}, ${
+    count ?? ''
+  } levels${levels.zero ? ' and 0' : ''}`;
+};
+
+// Components, groups and constraints of the run's setup as rows of the metadata sheet
+const setupRows = (setup: RunSetup): Cell[][] => {
+  const names = new Map(setup.components.map((comp) => [comp.id, comp.name]));
+  const nameList = (ids?: string[]) => (ids ?? []).map((id) => names.get(id) ?? id).join(', ');
+  const unit = setup.inputUnit;
+  const rows: Cell[][] = [
+    ['Setup'],
+    ['Mass unit', unit === 'percent' ? '%' : '0-1'],
+    ['Total minimum', massCell(setup.minTotal, unit)],
+    ['Total maximum', massCell(setup.maxTotal, unit)],
+  ];
+  // Setups stored before sampling designs carry none
+  if (setup.sampling) {
+    const settings = readDesignSettings(setup.sampling);
+    rows.push(
+      ['Sampling design', designLabel(settings)],
+      ['Sampling mode', settings.mode],
+      ['Sampling runs', setupValue(setup.sampling.runs)],
+      ['Sampling seed', setupValue(setup.sampling.seed)],
+      ['Lattice degree', setupValue(setup.sampling.degree)]
+    );
+  }
+  rows.push(
+    [],
+    [
+      'Component',
+      'Group',
+      'Min',
+      'Max',
+      'Step',
+      'Fixed',
+      'Levels',
+      'Balance',
+      'Price',
+      'Exclusive set',
+      'Requires',
+      'Forbids',
+      ...setup.propertyNames,
+    ]
+  );
+  for (const comp of setup.components) {
+    rows.push([
+      comp.name,
+      comp.group,
+      massCell(comp.min, unit),
+      massCell(comp.max, unit),
+      massCell(comp.step, unit),
+      massCell(comp.fixed, unit),
+      levelsCell(comp, unit),
+      comp.balance ? 'yes' : null,
+      setupValue(comp.price),
+      comp.exclusiveSet || null,
+      nameList(comp.requires) || null,
+      nameList(comp.forbids) || null,
+      ...setup.propertyNames.map((property) => setupValue(comp.properties?.[property])),
+    ]);
+  }
+  rows.push([], ['Group', 'Min mass', 'Max mass', 'Fixed mass', 'Min count', 'Max count']);
+  for (const [name, cfg] of Object.entries(setup.groupConfigs)) {
+    rows.push([
+      name,
+      massCell(cfg.minMass, unit),
+      massCell(cfg.maxMass, unit),
+      massCell(cfg.fixedMass, unit),
+      setupValue(cfg.minCount),
+      setupValue(cfg.maxCount),
+    ]);
+  }
+  if (setup.propertyConstraints.length > 0) {
+    rows.push([], ['Blended property', 'Min', 'Max']);
+    for (const constraint of setup.propertyConstraints) {
+      rows.push([constraint.property, setupValue(constraint.min), setupValue(constraint.max)]);
+    }
+  }
+  if (setup.ratioConstraints.length > 0) {
+    rows.push([], ['Ratio', 'Numerator', 'Denominator', 'Min', 'Max']);
+    for (const constraint of setup.ratioConstraints) {
+      const label = (side: string) =>
+        constraint.kind === 'component' ? names.get(side) ?? side : `Group ${side}`;
+      rows.push([
+        constraint.kind,
+        label(constraint.numerator),
+        label(constraint.denominator),
+        setupValue(constraint.min),
+        setupValue(constraint.max),
+      ]);
+    }
+  }
+  const rules = setup.rules
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+  if (rules.length > 0) {
+    rows.push([], ['Rules'], ...rules.map((line) => [line]));
+  }
+  if (setup.optimization.enabled) {
+    rows.push(
+      [],
+      ['Optimization', 'Objective', 'Direction', 'Keep'],
+      [
+        null,
+        setup.optimization.objective,
+        setup.optimization.direction === 'min' ? 'Lowest' : 'Highest',
+        setupValue(setup.optimization.limit),
+      ]
+    );
+  }
+  return rows;
+};
+
+const runRows = (run: RunRecord, options: ExportOptions, exportedRows: number): Cell[][] => [
+  ['Run'],
+  ['Run started', new Date(run.createdAt).toISOString()],
+  ['Exported', new Date().toISOString()],
+  ['Status', run.status],
+  ['Rows stored', run.rowCount],
+  ['Rows exported', exportedRows],
+  ['Valid combinations', run.validCount],
+  ['Grid points', run.totalCombinations],
+  ['Generation time (s)', Number((run.elapsedMs / 1000).toFixed(3))],
+  ['Result unit', options.unit === 'percent' ? '%' : '0-1'],
+  ['Ranked by', run.rankedBy],
+  [
+    'Predicted responses',
+    run.models?.length
+      ? run.models
+          .map((model) => {
+            const name = mixtureModels.find((option) => option.value === model.model)?.label;
+            return `${model.response}: ${name}, ${model.observations} measured rows`;
+          })
+          .join('; ')
+      : null,
+  ],
+];
+
+const buildXlsx = (table: ResultTable, run: RunRecord, options: ExportOptions) => {
+  const columns = exportColumns(table, options);
+  const exportedRows = Math.min(table.rowCount, maxSheetRows - 1);
+  function* results(): Generator<Cell[]> {
+    yield columns.map((column) => column.label);
+    for (let row = 0; row < exportedRows; row += 1) {
+      yield columns.map((column) => exportValue(table.values[column.index][row], column.percent));
+    }
+  }
+  const metadata: Cell[][] = [
+    ...runRows(run, options, exportedRows),
+    [],
+    ...(run.setup ? setupRows(run.setup) : [['Setup', 'Not stored with this run']]),
+  ];
+  return buildWorkbook([
+    { name: 'Results', rows: results(), headerRows: 1 },
+    { name: 'Metadata', rows: metadata },
+  ]);
+};
+
+const buildArrow = (table: ResultTable, run: RunRecord, options: ExportOptions) => {
+  const columns = exportColumns(table, options).map((column) => {
+    const values = table.values[column.index].subarray(0, table.rowCount);
+    return {
+      name: column.label,
+      values: column.percent ? values.map((value) => exportValue(value, true)) : values,
+    };
+  });
+  const metadata: Record<string, string> = Object.fromEntries(
+    runRows(run, options, table.rowCount)
+      .slice(1)
+      .filter(([, value]) => value !== null)
+      .map(([key, value]) => [String(key), String(value)])
+  );
+  if (run.setup) metadata.Setup = JSON.stringify(run.setup);
+  return buildArrowFile(columns, metadata);
+};
+
+export const buildExport = async (
+  table: ResultTable,
+  run: RunRecord,
+  options: ExportOptions
+): Promise<Blob> => {
+  if (options.format === 'xlsx') return buildXlsx(table, run, options);
+  if (options.format === 'arrow') return buildArrow(table, run, options);
+  return buildCsv(table, options);
+};
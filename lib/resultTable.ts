@@ -0,0 +1,200 @@
+// In-memory view over the full result set of a stored run: one typed column per component,
+// group total and score, filtered, searched and sorted into a list of row indices so a
+// virtualized grid only ever materializes the rows on screen.
+
+import { FittedModel, predict, predictionLabel } from './mixtureModel';
+import { ResultBatch, RunRecord } from './runStore';
+
+export type ResultColumn = {
+  label: string;
+  kind: 'component' | 'group' | 'score' | 'prediction';
+  // Display columns of the components summed into a group total
+  members: number[];
+  // Response model behind a predicted column
+  model?: FittedModel;
+};
+
+export type ColumnFilter = {
+  min: number | null;
+  max: number | null;
+};
+
+export type ResultQuery = {
+  // Index into the table columns, null keeps the stored (generation or ranking) order
+  sortColumn: number | null;
+  sortDirection: 'asc' | 'desc';
+  filters: Record<number, ColumnFilter>;
+  search: string;
+  // Filters and numbers in the search are in display units: 100 for percent, 1 for ratios
+  scale: number;
+};
+
+export type ColumnStats = {
+  min: number;
+  max: number;
+};
+
+export type ResultTable = {
+  columns: ResultColumn[];
+  values: Float64Array[];
+  rowCount: number;
+};
+
+// Components plus a total for every group of two or more, then the score of ranked runs and
+// a predicted column per fitted response model
+export const resultColumns = (run: RunRecord): ResultColumn[] => {
+  const columns: ResultColumn[] = run.columns.map((label, index) => ({
+    label,
+    kind: 'component',
+    members: [index],
+  }));
+  const groups = run.groups ?? [];
+  for (const group of Array.from(new Set(groups))) {
+    const members = groups.flatMap((name, index) => (name === group ? [index] : []));
+    if (members.length > 1) {
+      columns.push({ label: `Group ${group} total`, kind: 'group', members });
+    }
+  }
+  if (run.rankedBy) {
+    columns.push({ label: run.rankedBy, kind: 'score', members: [] });
+  }
+  for (const model of run.models ?? []) {
+    columns.push({ label: predictionLabel(model), kind: 'prediction', members: [], model });
+  }
+  return columns;
+};
+
+export const createResultTable = (run: RunRecord): ResultTable => {
+  const columns = resultColumns(run);
+  return {
+    columns,
+    values: columns.map(() => new Float64Array(run.rowCount)),
+    rowCount: 0,
+  };
+};
+
+// Appends a stored batch, mapping worker column order through the run's columnSource
+export const appendToTable = (table: ResultTable, run: RunRecord, batch: ResultBatch) => {
+  const width = run.columnSource.length;
+  const capacity = table.values[0]?.length ?? 0;
+  const count = Math.min(batch.rowCount, capacity - table.rowCount);
+  for (let i = 0; i < count; i += 1) {
+    const row = table.rowCount + i;
+    const start = i * width;
+    table.columns.forEach((column, columnIndex) => {
+      let value = 0;
+      if (column.kind === 'score') {
+        value = batch.scores ? batch.scores[i] : NaN;
+      } else if (column.model) {
+        value = predict(column.model, (member) => batch.rows[start + run.columnSource[member]]);
+      } else {
+        for (const member of column.members) {
+          value += batch.rows[start + run.columnSource[member]];
+        }
+      }
+      table.values[columnIndex][row] = value;
+    });
+  }
+  table.rowCount += count;
+};
+
+export const columnStats = (table: ResultTable): ColumnStats[] =>
+  table.values.map((values) => {
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < table.rowCount; i += 1) {
+      if (values[i] < min) min = values[i];
+      if (values[i] > max) max = values[i];
+    }
+    return { min, max };
+  });
+
+// Tolerance for comparing stored floats against values typed in display units
+const epsilon = 1e-9;
+
+// Each search term must match: a component name (or part of one) keeps the rows where one
+// of the matching components is present, a number keeps the rows where a component has
+// exactly that amount
+const compileSearch = (table: ResultTable, search: string, scale: number) => {
+  const components = table.columns.flatMap((column, index) =>
+    column.kind === 'component' ? [index] : []
+  );
+  return search
+    .toLowerCase()
+    .split(/[\s,]+/)
+    .filter((term) => term.length > 0)
+    .map((term) => {
+      const numeric = Number(term.replace('%', ''));
+      if (Number.isFinite(numeric)) {
+        return (row: number) =>
+          components.some((index) => Math.abs(table.values[index][row] * scale - numeric) < 1e-6);
+      }
+      const matches = components.filter((index) =>
+        table.columns[index].label.toLowerCase().includes(term)
+      );
+      return (row: number) => matches.some((index) => table.values[index][row] > 0);
+    });
+};
+
+// Row indices that pass the query, in display order
+export const queryResults = (table: ResultTable, query: ResultQuery): Uint32Array => {
+  const filters = Object.entries(query.filters)
+    .map(([column, filter]) => {
+      // Scores and predictions are not proportions, they are never scaled
+      const kind = table.columns[Number(column)]?.kind;
+      const factor = kind === 'score' || kind === 'prediction' ? 1 : query.scale;
+      return {
+        values: table.values[Number(column)],
+        min: filter.min === null ? -Infinity : filter.min / factor - epsilon,
+        max: filter.max === null ? Infinity : filter.max / factor + epsilon,
+      };
+    })
+    .filter((filter) => filter.values && (filter.min > -Infinity || filter.max < Infinity));
+  const terms = compileSearch(table, query.search, query.scale);
+  const matches = new Uint32Array(table.rowCount);
+  let count = 0;
+  for (let row = 0; row < table.rowCount; row += 1) {
+    let keep = true;
+    for (const filter of filters) {
+      const value = filter.values[row];
+      if (value < filter.min || value > filter.max) {
+        keep = false;
+        break;
+      }
+    }
+    if (keep) {
+      for (const term of terms) {
+        if (!term(row)) {
+          keep = false;
+          break;
+        }
+      }
+    }
+    if (keep) {
+      matches[count] = row;
+      count += 1;
+    }
+  }
+  const view = matches.slice(0, count);
+  if (query.sortColumn !== null && table.values[query.sortColumn]) {
+    const values = table.values[query.sortColumn];
+    const sign = query.sortDirection === 'asc' ? 1 : -1;
+    // Ties keep the stored order
+    view.sort((a, b) => (values[a] - values[b]) * sign || a - b);
+  }
+  return view;
+};
+
+// The rows view[start, start + count) as one flat array, table.columns.length values per row
+export const readView = (table: ResultTable, view: Uint32Array, start: number, count: number) => {
+  const width = table.columns.length;
+  const end = Math.min(view.length, start + count);
+  const rows = new Float64Array(Math.max(0, end - start) * width);
+  for (let i = start; i < end; i += 1) {
+    const row = view[i];
+    for (let column = 0; column < width; column += 1) {
+      rows[(i - start) * width + column] = table.values[column][row];
+    }
+  }
+  return rows;
+};
@@ -0,0 +1,395 @@
+// From a setup as edited (numbers possibly still typed text, masses in the input unit) to
+// what the search consumes: components ordered with the balance last, every mass on one
+// integer grid and constraints resolved to component indices. Shared by the app and the CLI.
+
+import { AnalysisInput } from './analysis';
+import { compileRules, ExpressionError } from './expressions';
+import { SearchSetup } from './search';
+import { Setup, SetupComponent, SetupLevels } from './setupSchema';
+
+type Unit = Setup['inputUnit'];
+type SetupNumber = number | string | null | undefined;
+
+// Tolerance of the float comparisons left after the grid (ratios, blends, rules)
+export const searchEpsilon = 1e-6;
+
+const normalizeDecimal = (value: string) => value.replace(',', '.');
+
+// Masses typed as text are in the input unit, stored numbers are already ratios
+export const coerceNumber = (value: SetupNumber, unit: Unit) => {
+  if (value === null || value === undefined || value === '') return 0;
+  if (typeof value === 'number') {
+    return Number.isNaN(value) ? 0 : value;
+  }
+  const normalized = normalizeDecimal(value);
+  const parsed = Number(normalized);
+  if (Number.isNaN(parsed)) return 0;
+  return unit === 'percent' ? parsed / 100 : parsed;
+};
+export const coerceCount = (value: SetupNumber) => {
+  if (value === null || value === undefined || value === '') return 0;
+  if (typeof value === 'number') {
+    return Number.isNaN(value) ? 0 : value;
+  }
+  const normalized = normalizeDecimal(value);
+  const parsed = Number(normalized);
+  return Number.isNaN(parsed) ? 0 : parsed;
+};
+export const coerceOptionalNumber = (value: SetupNumber, unit: Unit) => {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') {
+    return Number.isNaN(value) ? null : value;
+  }
+  const normalized = normalizeDecimal(value);
+  const parsed = Number(normalized);
+  if (Number.isNaN(parsed)) return null;
+  return unit === 'percent' ? parsed / 100 : parsed;
+};
+export const coerceOptionalCount = (value: SetupNumber) => {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') {
+    return Number.isNaN(value) ? null : value;
+  }
+  const normalized = normalizeDecimal(value);
+  const parsed = Number(normalized);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+export const coerceStep = (value: SetupNumber, unit: Unit) => {
+  if (value === null || value === undefined || value === '') return 0.1;
+  return coerceNumber(value, unit);
+};
+// Small values print in exponent form (1e-7, 2.5e-8), whose exponent adds to the digits
+const decimalPlaces = (value: number) => {
+  if (!Number.isFinite(value)) return 0;
+  const [mantissa, exponent] = value.toString().split('e');
+  const digits = mantissa.includes('.') ? mantissa.split('.')[1].length : 0;
+  return Math.max(0, digits - Number(exponent ?? 0));
+};
+
+// Values of a levels mode in ascending order, as ratios. Progression levels are rounded to
+// three significant digits, so log-spaced values stay readable and on a coarse grid.
+export const resolveLevels = (levels: SetupLevels, unit: Unit) => {
+  let values: number[];
+  if (levels.mode === 'list') {
+    values = levels.values;
+  } else {
+    const start = coerceNumber(levels.start, unit);
+    const end = coerceNumber(levels.end, unit);
+    const count = coerceCount(levels.count);
+    if (start <= 0 || end <= 0 || !Number.isInteger(count) || count < 2) return [];
+    values = Array.from({ length: count }, (_, index) =>
+      Number((start * Math.pow(end / start, index / (count - 1))).toPrecision(3))
+    );
+    if (levels.zero) values.push(0);
+  }
+  return Array.from(new Set(values)).sort((a, b) => a - b);
+};
+
+// Levels only replace the range of an enumerated component without a fixed value
+const activeLevels = (comp: SetupComponent, unit: Unit) =>
+  comp.levels && !comp.balance && coerceOptionalNumber(comp.fixed ?? null, unit) === null
+    ? comp.levels
+    : null;
+
+export type RunPlan = {
+  balanceComponent: SetupComponent | undefined;
+  // Setup column of each search column; the search sees the balance component last
+  columnSource: number[];
+  ranges: number[][];
+  // Raw size of the search space, the balance not counted
+  totalLoops: number;
+  objectiveLabel: string;
+  search: SearchSetup;
+};
+
+// First problem that prevents generation, or null when the setup can run
+export const findSetupProblem = (setup: Setup): string | null => {
+  const unit = setup.inputUnit;
+  const minTotalValue = coerceNumber(setup.minTotal, unit);
+  const maxTotalValue = coerceNumber(setup.maxTotal, unit);
+  if (minTotalValue > maxTotalValue) {
+    return 'Minimum total must be less than or equal to maximum total.';
+  }
+  for (const comp of setup.components) {
+    const stepValue = coerceStep(comp.step, unit);
+    if (stepValue <= 0) {
+      return 'Step must be greater than 0 for all components.';
+    }
+  }
+  for (const comp of setup.components) {
+    const levels = activeLevels(comp, unit);
+    if (!levels) continue;
+    if (levels.mode === 'list' && levels.values.length === 0) {
+      return `${comp.name} needs at least one level.`;
+    }
+    if (levels.mode === 'geometric') {
+      const count = coerceCount(levels.count);
+      if (coerceNumber(levels.start, unit) <= 0 || coerceNumber(levels.end, unit) <= 0) {
+        return `Geometric levels of ${comp.name} need a start and end greater than 0.`;
+      }
+      if (!Number.isInteger(count) || count < 2) {
+        return `Geometric levels of ${comp.name} need a whole number of at least 2 levels.`;
+      }
+    }
+  }
+  for (const constraint of setup.propertyConstraints) {
+    const minValue = coerceOptionalCount(constraint.min ?? null);
+    const maxValue = coerceOptionalCount(constraint.max ?? null);
+    if (minValue !== null && maxValue !== null && minValue > maxValue) {
+      return `Blended ${constraint.property} minimum must be less than or equal to its maximum.`;
+    }
+  }
+  for (const constraint of setup.ratioConstraints) {
+    const minValue = coerceOptionalCount(constraint.min ?? null);
+    const maxValue = coerceOptionalCount(constraint.max ?? null);
+    if ((minValue !== null && minValue < 0) || (maxValue !== null && maxValue < 0)) {
+      return 'Ratio bounds must be zero or greater.';
+    }
+    if (minValue !== null && maxValue !== null && minValue > maxValue) {
+      return 'Minimum ratio must be less than or equal to maximum ratio.';
+    }
+    if (constraint.numerator === constraint.denominator) {
+      return 'A ratio constraint needs two different sides.';
+    }
+  }
+  try {
+    compileRules(
+      setup.rules,
+      setup.components.map((comp) => ({ name: comp.name, group: comp.group }))
+    );
+  } catch (error) {
+    if (error instanceof ExpressionError) {
+      return error.message;
+    }
+    throw error;
+  }
+  const { optimization } = setup;
+  if (optimization.enabled) {
+    const limitValue = coerceOptionalCount(optimization.limit);
+    if (limitValue === null || limitValue < 1 || !Number.isInteger(limitValue)) {
+      return 'Number of formulas to keep must be a whole number of at least 1.';
+    }
+    if (
+      optimization.objective !== 'cost' &&
+      !setup.propertyNames.includes(optimization.objective)
+    ) {
+      return `Objective property "${optimization.objective}" no longer exists.`;
+    }
+  }
+  return null;
+};
+
+export const buildRunPlan = (setup: Setup): RunPlan => {
+  const { components, groupConfigs, propertyNames, optimization, inputUnit: unit } = setup;
+  // The balance component is sent last so that it can be filled with the remainder once
+  // every other component has a value; columnSource maps search columns back to the setup
+  const balanceComponent = components.find((comp) => comp.balance);
+  const orderedComponents = balanceComponent
+    ? [...components.filter((comp) => comp !== balanceComponent), balanceComponent]
+    : components;
+  const columnSource = components.map((comp) => orderedComponents.indexOf(comp));
+  const minTotalValue = coerceNumber(setup.minTotal, unit);
+  const maxTotalValue = coerceNumber(setup.maxTotal, unit);
+  const normalizedGroupMasses = Object.fromEntries(
+    Object.entries(groupConfigs).map(([name, cfg]) => [
+      name,
+      {
+        minMass: coerceOptionalNumber(cfg.minMass, unit),
+        maxMass: coerceOptionalNumber(cfg.maxMass, unit),
+        fixedMass: coerceOptionalNumber(cfg.fixedMass, unit),
+      },
+    ])
+  );
+  // Every mass shares one integer grid, fine enough for the most precise value entered
+  // (capped at 6 decimals), so the search sums exactly instead of comparing floats
+  const gridValues = [
+    minTotalValue,
+    maxTotalValue,
+    ...components.flatMap((comp) => {
+      const fixedValue = coerceOptionalNumber(comp.fixed ?? null, unit);
+      if (fixedValue !== null && !comp.balance) return [fixedValue];
+      const levels = activeLevels(comp, unit);
+      if (levels) return resolveLevels(levels, unit);
+      return [
+        coerceNumber(comp.min ?? 0, unit),
+        coerceNumber(comp.max ?? 0, unit),
+        ...(comp.balance ? [] : [coerceStep(comp.step ?? 0.1, unit)]),
+      ];
+    }),
+    ...Object.values(normalizedGroupMasses).flatMap((masses) =>
+      Object.values(masses).filter((value): value is number => value !== null)
+    ),
+  ];
+  const scale = Math.pow(10, Math.min(6, Math.max(0, ...gridValues.map(decimalPlaces))));
+  const toUnits = (value: number) => Math.round(value * scale);
+  const toOptionalUnits = (value: number | null) => (value === null ? null : toUnits(value));
+  // Build ranges for each component, in grid units
+  const ranges = orderedComponents.map((comp) => {
+    // The balance range only bounds its remainder, it is never enumerated
+    if (comp === balanceComponent) {
+      return [
+        toUnits(coerceNumber(comp.min ?? 0, unit)),
+        toUnits(coerceNumber(comp.max ?? 0, unit)),
+      ];
+    }
+    // Determine if fixed value is provided
+    const fixedValue = coerceOptionalNumber(comp.fixed ?? null, unit);
+    if (fixedValue !== null) {
+      return [toUnits(fixedValue)];
+    }
+    const levels = activeLevels(comp, unit);
+    if (levels) {
+      const values = Array.from(new Set(resolveLevels(levels, unit).map(toUnits)));
+      return values.length > 0 ? values : [0];
+    }
+    const step = coerceStep(comp.step ?? 0.1, unit);
+    const start = toUnits(coerceNumber(comp.min ?? 0, unit));
+    const end = toUnits(coerceNumber(comp.max ?? 0, unit));
+    const stepInt = Math.max(1, toUnits(step));
+    const vals: number[] = [];
+    for (let v = start; v <= end; v += stepInt) {
+      vals.push(v);
+    }
+    return vals.length > 0 ? vals : [start];
+  });
+  // The balance fills up to 100% when that is inside the total band
+  const balanceTarget = toUnits(Math.min(Math.max(1, minTotalValue), maxTotalValue));
+  const totalLoops = ranges.reduce(
+    (acc, arr, index) => (orderedComponents[index] === balanceComponent ? acc : acc * arr.length),
+    1
+  );
+
+  const componentPayload = orderedComponents.map((comp) => ({
+    name: comp.name,
+    group: comp.group,
+    properties: propertyNames.map(
+      (property) => coerceOptionalCount(comp.properties?.[property] ?? null) ?? 0
+    ),
+  }));
+  const optimizationLimit = optimization.enabled ? coerceCount(optimization.limit) : 0;
+  const objectiveLabel = optimization.objective === 'cost' ? 'Cost' : optimization.objective;
+  const optimizationPayload = optimization.enabled
+    ? {
+        coefficients: orderedComponents.map((comp) =>
+          optimization.objective === 'cost'
+            ? coerceOptionalCount(comp.price ?? null) ?? 0
+            : coerceOptionalCount(comp.properties?.[optimization.objective] ?? null) ?? 0
+        ),
+        direction: optimization.direction,
+        limit: optimizationLimit,
+      }
+    : null;
+
+  const normalizedGroupConfigs = Object.fromEntries(
+    Object.entries(groupConfigs).map(([name, cfg]) => [
+      name,
+      {
+        ...cfg,
+        minMass: toOptionalUnits(normalizedGroupMasses[name].minMass),
+        maxMass: toOptionalUnits(normalizedGroupMasses[name].maxMass),
+        fixedMass: toOptionalUnits(normalizedGroupMasses[name].fixedMass),
+        minCount: coerceOptionalCount(cfg.minCount),
+        maxCount: coerceOptionalCount(cfg.maxCount),
+      },
+    ])
+  );
+
+  const normalizedPropertyConstraints = setup.propertyConstraints
+    .map((constraint) => ({
+      propertyIndex: propertyNames.indexOf(constraint.property),
+      label: constraint.property,
+      min: coerceOptionalCount(constraint.min ?? null),
+      max: coerceOptionalCount(constraint.max ?? null),
+    }))
+    .filter(
+      (constraint) =>
+        constraint.propertyIndex >= 0 && (constraint.min !== null || constraint.max !== null)
+    );
+
+  const ratioSide = (kind: 'component' | 'group', key: string) =>
+    orderedComponents.flatMap((comp, index) =>
+      (kind === 'component' ? comp.id === key : comp.group === key) ? [index] : []
+    );
+  const ratioSideLabel = (kind: 'component' | 'group', key: string) =>
+    kind === 'component' ? components.find((comp) => comp.id === key)?.name ?? key : key;
+  const normalizedRatioConstraints = setup.ratioConstraints
+    .map((constraint) => ({
+      label: `${ratioSideLabel(constraint.kind, constraint.numerator)} / ${ratioSideLabel(
+        constraint.kind,
+        constraint.denominator
+      )}`,
+      numerator: ratioSide(constraint.kind, constraint.numerator),
+      denominator: ratioSide(constraint.kind, constraint.denominator),
+      min: coerceOptionalCount(constraint.min ?? null),
+      max: coerceOptionalCount(constraint.max ?? null),
+    }))
+    .filter(
+      (constraint) =>
+        constraint.numerator.length > 0 &&
+        constraint.denominator.length > 0 &&
+        (constraint.min !== null || constraint.max !== null)
+    );
+
+  const exclusiveSetMembers = new Map<string, number[]>();
+  orderedComponents.forEach((comp, index) => {
+    const label = comp.exclusiveSet?.trim();
+    if (!label) return;
+    exclusiveSetMembers.set(label, [...(exclusiveSetMembers.get(label) ?? []), index]);
+  });
+  const exclusiveSets = Array.from(exclusiveSetMembers.values()).filter(
+    (members) => members.length > 1
+  );
+  const componentIndexById = new Map(orderedComponents.map((comp, index) => [comp.id, index]));
+  const implications = orderedComponents.flatMap((comp, source) =>
+    (['requires', 'forbids'] as const).flatMap((kind) =>
+      (comp[kind] ?? [])
+        .map((otherId) => componentIndexById.get(otherId))
+        .filter((target): target is number => target !== undefined && target !== source)
+        .map((target) => ({ source, target, kind }))
+    )
+  );
+
+  return {
+    balanceComponent,
+    columnSource,
+    ranges,
+    totalLoops,
+    objectiveLabel,
+    search: {
+      components: componentPayload,
+      groupConfigs: normalizedGroupConfigs,
+      propertyConstraints: normalizedPropertyConstraints,
+      ratioConstraints: normalizedRatioConstraints,
+      rules: setup.rules,
+      exclusiveSets,
+      implications,
+      scale,
+      minTotal: balanceComponent ? balanceTarget : toUnits(minTotalValue),
+      maxTotal: balanceComponent ? balanceTarget : toUnits(maxTotalValue),
+      balance: balanceComponent
+        ? { min: ranges[ranges.length - 1][0], max: ranges[ranges.length - 1][1] }
+        : null,
+      ranges,
+      epsilon: searchEpsilon,
+      optimization: optimizationPayload,
+    },
+  };
+};
+
+// The structural part of a run plan that the count and feasibility analysis works on
+export const toAnalysisInput = (search: SearchSetup, unit: Unit): AnalysisInput => ({
+  components: search.components,
+  groupConfigs: search.groupConfigs,
+  ranges: search.ranges,
+  balance: search.balance,
+  minTotal: search.minTotal,
+  maxTotal: search.maxTotal,
+  scale: search.scale,
+  percent: unit === 'percent',
+  partial:
+    search.propertyConstraints.length > 0 ||
+    search.ratioConstraints.length > 0 ||
+    search.exclusiveSets.length > 0 ||
+    search.implications.length > 0 ||
+    compileRules(search.rules, search.components).length > 0,
+});
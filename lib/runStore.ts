@@ -0,0 +1,183 @@
+// IndexedDB storage for generation runs: every run's result batches, a history of past runs
+// to reopen, export or compare, and the checkpoint of an interrupted run so it can be
+// resumed after a reload, from the same setup.
+
+import { FittedModel } from './mixtureModel';
+import { Setup } from './setupSchema';
+
+export type TaskCursor = {
+  taskId: number;
+  prefix: number[];
+  path: number[];
+  processed: number;
+  valid: number;
+};
+
+// The setup a run was generated from, in the shape Export Setup writes
+export type RunSetup = Setup;
+
+export type RunRecord = {
+  id: string;
+  createdAt: number;
+  status: 'running' | 'paused' | 'complete';
+  // Result column names in display order; stored rows are in worker order and
+  // columnSource[i] is the stored column shown as column i
+  columns: string[];
+  columnSource: number[];
+  // Group of each column, absent on runs stored before group totals were shown
+  groups?: string[];
+  rankedBy: string | null;
+  // Sampling design the rows come from, absent on runs that list every valid combination
+  design?: string;
+  // Response models fitted to lab measurements, each shown as a predicted column
+  models?: FittedModel[];
+  // Absent on runs stored before exports carried the setup
+  setup?: RunSetup;
+  rowCount: number;
+  validCount: number;
+  totalCombinations: number;
+  elapsedMs: number;
+};
+
+// Rows exactly as the worker transferred them, rowCount rows of columnSource.length values
+export type ResultBatch = {
+  runId: string;
+  sequence: number;
+  rows: Float64Array;
+  rowCount: number;
+  scores: Float64Array | null;
+};
+
+export type RunCheckpoint = {
+  // Serialized run plan, a checkpoint only resumes the setup it was taken from
+  setupKey: string;
+  runId: string;
+  // Batches stored after the checkpoint are dropped on resume, their tasks run again
+  batchCount: number;
+  rowCount: number;
+  savedAt: number;
+  elapsedMs: number;
+  prefixLength: number;
+  taskCount: number;
+  nextTask: number;
+  tasksDone: number;
+  // Tasks handed out but not finished, resumed from their cursor when one was reported
+  pending: { taskId: number; cursor: TaskCursor | null }[];
+  taskProcessed: Float64Array;
+  taskValid: Float64Array;
+  rejections: { reason: string; leaves: number; prunes: number }[];
+  rankedRows: number[][];
+};
+
+const databaseName = 'combinationApp';
+const databaseVersion = 2;
+const checkpointStore = 'checkpoints';
+const runStore = 'runs';
+const batchStore = 'batches';
+const checkpointKey = 'current';
+
+// One shared connection, so transactions are created (and ordered) in call order
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (databasePromise) return databasePromise;
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(databaseName, databaseVersion);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(checkpointStore)) {
+        db.createObjectStore(checkpointStore);
+      }
+      if (!db.objectStoreNames.contains(runStore)) {
+        db.createObjectStore(runStore, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(batchStore)) {
+        db.createObjectStore(batchStore, { keyPath: ['runId', 'sequence'] });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      databasePromise = null;
+      reject(request.error);
+    };
+  });
+  return databasePromise;
+};
+
+// Runs `action` in one transaction over `storeNames` and resolves with the result of the
+// request it returns once the transaction is committed
+const runTransaction = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  action: (transaction: IDBTransaction) => IDBRequest<T> | void
+) => {
+  const db = await openDatabase();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const transaction = db.transaction(storeNames, mode);
+    const request = action(transaction);
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const batchRange = (runId: string, fromSequence = 0) =>
+  IDBKeyRange.bound([runId, fromSequence], [runId, Infinity]);
+
+// The checkpoint transaction also covers the run and batch stores, so it commits only after
+// every batch written before it
+export const saveCheckpoint = (checkpoint: RunCheckpoint) =>
+  runTransaction([checkpointStore, runStore, batchStore], 'readwrite', (transaction) =>
+    transaction.objectStore(checkpointStore).put(checkpoint, checkpointKey)
+  );
+
+export const loadCheckpoint = () =>
+  runTransaction<RunCheckpoint>([checkpointStore], 'readonly', (transaction) =>
+    transaction.objectStore(checkpointStore).get(checkpointKey)
+  );
+
+export const clearCheckpoint = () =>
+  runTransaction([checkpointStore], 'readwrite', (transaction) =>
+    transaction.objectStore(checkpointStore).delete(checkpointKey)
+  );
+
+export const saveRun = (run: RunRecord) =>
+  runTransaction([runStore], 'readwrite', (transaction) =>
+    transaction.objectStore(runStore).put(run)
+  );
+
+export const listRuns = async () => {
+  const runs = await runTransaction<RunRecord[]>([runStore], 'readonly', (transaction) =>
+    transaction.objectStore(runStore).getAll()
+  );
+  return (runs ?? []).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const appendBatch = (batch: ResultBatch) =>
+  runTransaction([batchStore], 'readwrite', (transaction) =>
+    transaction.objectStore(batchStore).put(batch)
+  );
+
+// Drops the batches of a run from `fromSequence` on
+export const truncateBatches = (runId: string, fromSequence: number) =>
+  runTransaction([batchStore], 'readwrite', (transaction) =>
+    transaction.objectStore(batchStore).delete(batchRange(runId, fromSequence))
+  );
+
+export const deleteRun = (runId: string) =>
+  runTransaction([runStore, batchStore], 'readwrite', (transaction) => {
+    transaction.objectStore(batchStore).delete(batchRange(runId));
+    transaction.objectStore(runStore).delete(runId);
+  });
+
+// Visits the batches of a run in order; returning false from `visit` stops early
+export const readBatches = (runId: string, visit: (batch: ResultBatch) => boolean | void) =>
+  runTransaction([batchStore], 'readonly', (transaction) => {
+    const request = transaction.objectStore(batchStore).openCursor(batchRange(runId));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if (visit(cursor.value as ResultBatch) === false) return;
+      cursor.continue();
+    };
+  });
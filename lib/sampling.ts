@@ -0,0 +1,388 @@
+// Design-of-experiments sampling: a small, well-spread set of runs instead of every valid
+// combination. Candidate points are built on the same integer grid as the search, rounded
+// back into the total band when the grid moved them out of it, and then checked by the
+// search itself (a task pinned to the point), so a design obeys every constraint a full run
+// would: bounds, totals, groups, ratios, blended properties, presence logic and rules.
+
+import { coerceCount, RunPlan } from './runPlan';
+import { createSearch, Rejection } from './search';
+import { SetupSampling } from './setupSchema';
+
+export type SamplingMode = SetupSampling['mode'];
+
+export type DesignSettings = {
+  mode: SamplingMode;
+  runs: number;
+  seed: number;
+  degree: number;
+};
+
+export type Design = {
+  // Rows in search column order, as ratios, like a worker batch
+  rows: Float64Array;
+  rowCount: number;
+  // Distinct candidate points checked, and what ruled out the ones that were dropped
+  checked: number;
+  rejections: Rejection[];
+};
+
+export class SamplingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SamplingError';
+  }
+}
+
+export const samplingModes: { value: SamplingMode; label: string }[] = [
+  { value: 'lhs', label: 'Latin hypercube' },
+  { value: 'maximin', label: 'Maximin space-filling' },
+  { value: 'random', label: 'Random feasible' },
+  { value: 'lattice', label: 'Simplex lattice' },
+  { value: 'centroid', label: 'Simplex centroid' },
+];
+
+// Mixture designs have a size of their own, the other modes draw `runs` points
+export const hasFixedSize = (mode: SamplingMode) => mode === 'lattice' || mode === 'centroid';
+
+const maxLatticePoints = 100000;
+const maxCentroidComponents = 14;
+// Candidates tried per requested run before a sparse feasible region is given up on
+const attemptsPerRun = 200;
+// Feasible candidates a maximin design is picked from
+const poolPerRun = 20;
+const minPool = 500;
+const maxPool = 20000;
+
+export const readDesignSettings = (sampling: SetupSampling): DesignSettings => ({
+  mode: sampling.mode,
+  runs: coerceCount(sampling.runs),
+  seed: coerceCount(sampling.seed),
+  degree: coerceCount(sampling.degree),
+});
+
+export const findSamplingProblem = (sampling: SetupSampling): string | null => {
+  const { mode, runs, seed, degree } = readDesignSettings(sampling);
+  if (mode === 'lattice' && (!Number.isInteger(degree) || degree < 1)) {
+    return 'The lattice degree must be a whole number of at least 1.';
+  }
+  if (!hasFixedSize(mode) && (!Number.isInteger(runs) || runs < 1)) {
+    return 'Number of runs must be a whole number of at least 1.';
+  }
+  if (!Number.isInteger(seed) || seed < 0) {
+    return 'The seed must be a whole number of 0 or more.';
+  }
+  return null;
+};
+
+export const designLabel = (settings: DesignSettings) => {
+  const name = samplingModes.find((mode) => mode.value === settings.mode)?.label ?? 'Design';
+  if (settings.mode === 'centroid') return name;
+  if (settings.mode === 'lattice') return `${name}, degree ${settings.degree}`;
+  return `${name}, ${settings.runs} runs, seed ${settings.seed}`;
+};
+
+// mulberry32: small, fast and the same sequence for the same seed everywhere
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// First position in an ascending range whose value is >= target
+const lowerBound = (range: number[], target: number) => {
+  let low = 0;
+  let high = range.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (range[mid] < target) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+const binomial = (n: number, k: number) => {
+  let result = 1;
+  for (let i = 1; i <= k; i += 1) result = (result * (n - k + i)) / i;
+  return Math.round(result);
+};
+
+// Every way to split `total` lattice steps over `parts` components
+const compositions = (parts: number, total: number): number[][] => {
+  if (parts === 1) return [[total]];
+  const result: number[][] = [];
+  for (let first = total; first >= 0; first -= 1) {
+    for (const rest of compositions(parts - 1, total - first)) result.push([first, ...rest]);
+  }
+  return result;
+};
+
+export const createDesign = (plan: RunPlan, settings: DesignSettings): Design => {
+  const { search } = plan;
+  const { ranges, balance, scale } = search;
+  const n = ranges.length;
+  const balanceIndex = balance ? n - 1 : -1;
+  const random = createRandom(settings.seed);
+  const shuffle = <T>(items: T[]) => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i -= 1) {
+      const j = Math.floor(random() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  };
+
+  const enumerated = ranges.map((_, d) => d).filter((d) => d !== balanceIndex);
+  // Components with a choice to make; the others have a single (fixed) value
+  const free = enumerated.filter((d) => ranges[d].length > 1);
+  const low = ranges.map((range, d) => (d === balanceIndex && balance ? balance.min : range[0]));
+  const high = ranges.map((range, d) =>
+    d === balanceIndex && balance ? balance.max : range[range.length - 1]
+  );
+  const fixedSum = enumerated
+    .filter((d) => ranges[d].length === 1)
+    .reduce((acc, d) => acc + ranges[d][0], 0);
+  // Band the enumerated components have to sum to; with a balance it takes up the rest
+  const sumLow = balance ? search.minTotal - balance.max : search.minTotal;
+  const sumHigh = balance ? search.maxTotal - balance.min : search.maxTotal;
+  // Total a mixture design spreads over its components: 100% when the band allows it
+  const target = balance
+    ? search.minTotal
+    : Math.min(Math.max(scale, search.minTotal), search.maxTotal);
+
+  // The search checks a point as a task whose prefix pins every depth, balance included
+  let accepted = false;
+  let rejections: Rejection[] = [];
+  const checker = createSearch(
+    { ...search, optimization: null, maxResults: 0, workerId: 0 },
+    (message) => {
+      if (message.type === 'taskDone') accepted = message.valid > 0;
+      if (message.type === 'done') rejections = message.rejections;
+    }
+  );
+  const seen = new Set<string>();
+  const kept: number[][] = [];
+  let checked = 0;
+
+  // Adds the point when it is new and feasible; positions index each enumerated range
+  const consider = (positions: number[]) => {
+    const units = positions.map((position, d) => (d === balanceIndex ? 0 : ranges[d][position]));
+    const pinned = [...positions];
+    if (balance) {
+      const rest = search.minTotal - units.reduce((acc, unit) => acc + unit, 0);
+      if (rest < balance.min || rest > balance.max) return null;
+      units[balanceIndex] = rest;
+      pinned[balanceIndex] = rest - balance.min;
+    }
+    const key = units.join(',');
+    if (seen.has(key)) return null;
+    seen.add(key);
+    checked += 1;
+    checker.startTask(0, pinned);
+    checker.walk(Infinity);
+    return accepted ? units : null;
+  };
+
+  // Rounds a continuous proposal (grid units per depth) onto the grid, then moves the
+  // components whose rounding went furthest the other way, one grid step at a time, until
+  // the enumerated sum is back inside its band
+  const settle = (proposal: number[]) => {
+    const positions = new Array<number>(n).fill(0);
+    let sum = 0;
+    for (const d of enumerated) {
+      const range = ranges[d];
+      const above = Math.min(range.length - 1, lowerBound(range, proposal[d]));
+      const below = Math.max(0, above - 1);
+      positions[d] =
+        Math.abs(range[below] - proposal[d]) <= Math.abs(range[above] - proposal[d])
+          ? below
+          : above;
+      sum += range[positions[d]];
+    }
+    let guard = free.reduce((acc, d) => acc + ranges[d].length, 0);
+    while (sum < sumLow || sum > sumHigh) {
+      const up = sum < sumLow;
+      let best = -1;
+      let bestGap = -Infinity;
+      for (const d of free) {
+        const position = positions[d];
+        if (up ? position >= ranges[d].length - 1 : position <= 0) continue;
+        const gap = up ? proposal[d] - ranges[d][position] : ranges[d][position] - proposal[d];
+        if (gap > bestGap) {
+          best = d;
+          bestGap = gap;
+        }
+      }
+      if (best < 0 || guard <= 0) return null;
+      guard -= 1;
+      const before = ranges[best][positions[best]];
+      positions[best] += up ? 1 : -1;
+      sum += ranges[best][positions[best]] - before;
+    }
+    return positions;
+  };
+
+  // Draws the free components in a random order, each from the part of its range that
+  // still lets the others reach the band, so every draw lands on a valid total
+  const randomPositions = () => {
+    const positions = new Array<number>(n).fill(0);
+    let sum = fixedSum;
+    let restLow = free.reduce((acc, d) => acc + low[d], 0);
+    let restHigh = free.reduce((acc, d) => acc + high[d], 0);
+    for (const d of shuffle(free)) {
+      restLow -= low[d];
+      restHigh -= high[d];
+      const start = lowerBound(ranges[d], sumLow - sum - restHigh);
+      const end = lowerBound(ranges[d], sumHigh - sum - restLow + 1);
+      if (start >= end) return null;
+      positions[d] = start + Math.floor(random() * (end - start));
+      sum += ranges[d][positions[d]];
+    }
+    return positions;
+  };
+
+  // Mixture designs spread what the minimums leave of the target over pseudo-components
+  const mixtureMembers = balance ? [...free, balanceIndex] : free;
+  const mixtureProposal = (shares: number[]) => {
+    const spread = target - fixedSum - mixtureMembers.reduce((acc, d) => acc + low[d], 0);
+    const proposal = [...low];
+    mixtureMembers.forEach((d, index) => {
+      proposal[d] = low[d] + spread * shares[index];
+    });
+    return proposal;
+  };
+  const requireMixture = () => {
+    if (mixtureMembers.length < 2) {
+      throw new SamplingError('A mixture design needs at least two components that can vary.');
+    }
+    const minimums = fixedSum + mixtureMembers.reduce((acc, d) => acc + low[d], 0);
+    if (minimums > target) {
+      throw new SamplingError(
+        'The component minimums already exceed the total, so no mixture is left to vary.'
+      );
+    }
+  };
+
+  const runs = settings.runs;
+  const attempts = runs * attemptsPerRun;
+  const keep = (positions: number[] | null) => {
+    const units = positions ? consider(positions) : null;
+    if (units) kept.push(units);
+  };
+
+  if (settings.mode === 'random') {
+    for (let attempt = 0; attempt < attempts && kept.length < runs; attempt += 1) {
+      keep(randomPositions());
+    }
+  }
+
+  if (settings.mode === 'lattice') {
+    requireMixture();
+    const q = mixtureMembers.length;
+    const m = settings.degree;
+    if (binomial(q + m - 1, m) > maxLatticePoints) {
+      throw new SamplingError(
+        `A degree ${m} lattice over ${q} components has more than ` +
+          `${maxLatticePoints.toLocaleString()} points. Lower the degree.`
+      );
+    }
+    for (const steps of compositions(q, m)) {
+      keep(settle(mixtureProposal(steps.map((step) => step / m))));
+    }
+  }
+
+  if (settings.mode === 'centroid') {
+    requireMixture();
+    const q = mixtureMembers.length;
+    if (q > maxCentroidComponents) {
+      throw new SamplingError(
+        `A simplex centroid design is limited to ${maxCentroidComponents} varying components.`
+      );
+    }
+    // Pure components first, then equal blends of two, three, ... up to all of them
+    const subsets = Array.from({ length: 2 ** q - 1 }, (_, index) =>
+      mixtureMembers.map((__, member) => ((index + 1) >> member) & 1)
+    );
+    const sizeOf = (members: number[]) => members.reduce((acc, member) => acc + member, 0);
+    subsets.sort((a, b) => sizeOf(a) - sizeOf(b));
+    for (const members of subsets) {
+      const size = sizeOf(members);
+      keep(settle(mixtureProposal(members.map((member) => member / size))));
+    }
+  }
+
+  if (settings.mode === 'lhs') {
+    // Without a balance the hypercube is drawn over pseudo-components and normalized onto
+    // the target; with one, over the free components' own ranges and the balance fills up.
+    // Points that turn out infeasible are replaced by a fresh, smaller hypercube.
+    const dimensions = balance ? free : mixtureMembers;
+    if (!balance) requireMixture();
+    let drawn = 0;
+    while (kept.length < runs && drawn < attempts) {
+      const size = runs - kept.length;
+      const strata = dimensions.map(() => shuffle(Array.from({ length: size }, (_, i) => i)));
+      const before = kept.length;
+      for (let i = 0; i < size; i += 1) {
+        const shares = strata.map((order) => (order[i] + random()) / size);
+        let proposal: number[];
+        if (balance) {
+          proposal = [...low];
+          dimensions.forEach((d, index) => {
+            proposal[d] = low[d] + (high[d] - low[d]) * shares[index];
+          });
+        } else {
+          const total = shares.reduce((acc, share) => acc + share, 0);
+          proposal = mixtureProposal(shares.map((share) => share / total));
+        }
+        keep(settle(proposal));
+      }
+      drawn += size;
+      // Nothing new fits any more: more rounds would keep landing on the same points
+      if (kept.length === before && drawn >= runs * 10) break;
+    }
+  }
+
+  if (settings.mode === 'maximin') {
+    const poolSize = Math.min(maxPool, Math.max(minPool, runs * poolPerRun));
+    const pool: number[][] = [];
+    for (let attempt = 0; attempt < poolSize * 10 && pool.length < poolSize; attempt += 1) {
+      const positions = randomPositions();
+      const units = positions ? consider(positions) : null;
+      if (units) pool.push(units);
+    }
+    // Distances are taken over every column that varies, each scaled to its own range
+    const columns = ranges.map((_, d) => d).filter((d) => high[d] > low[d]);
+    const distance = (a: number[], b: number[]) =>
+      columns.reduce((acc, d) => acc + ((a[d] - b[d]) / (high[d] - low[d])) ** 2, 0);
+    if (pool.length > 0) {
+      const nearest = new Float64Array(pool.length).fill(Infinity);
+      let next = Math.floor(random() * pool.length);
+      while (kept.length < Math.min(runs, pool.length)) {
+        const chosen = pool[next];
+        kept.push(chosen);
+        nearest[next] = -1;
+        let farthest = -1;
+        pool.forEach((candidate, index) => {
+          if (nearest[index] < 0) return;
+          nearest[index] = Math.min(nearest[index], distance(candidate, chosen));
+          if (farthest < 0 || nearest[index] > nearest[farthest]) farthest = index;
+        });
+        if (farthest < 0) break;
+        next = farthest;
+      }
+    }
+  }
+
+  checker.finish();
+  const rows = new Float64Array(kept.length * n);
+  kept.forEach((units, index) => {
+    units.forEach((unit, d) => {
+      rows[index * n + d] = unit / scale;
+    });
+  });
+  return { rows, rowCount: kept.length, checked, rejections };
+};
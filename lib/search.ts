@@ -0,0 +1,751 @@
+// The enumeration behind every run, independent of where it runs: a web worker in the app
+// or a worker thread of the CLI. The host hands it prefix tasks and forwards what it posts
+// (progress, row batches, snapshots, the final tallies) to whatever schedules the tasks.
+
+import { compileRules, CompiledRule } from './expressions';
+
+type ComponentPayload = {
+  name: string;
+  group: string;
+  properties: number[];
+};
+
+type GroupConfig = {
+  name: string;
+  minMass?: number | null;
+  maxMass?: number | null;
+  fixedMass?: number | null;
+  minCount?: number | null;
+  maxCount?: number | null;
+};
+
+type PropertyConstraint = {
+  propertyIndex: number;
+  label: string;
+  min: number | null;
+  max: number | null;
+};
+
+// A ratio between two sets of components (a single component or a whole group),
+// checked as min * den <= num <= max * den so that rows without either side pass.
+type RatioConstraint = {
+  label: string;
+  numerator: number[];
+  denominator: number[];
+  min: number | null;
+  max: number | null;
+};
+
+// If `source` is present (> 0), `target` must also be present (requires) or absent (forbids)
+type Implication = {
+  source: number;
+  target: number;
+  kind: 'requires' | 'forbids';
+};
+
+// The balance component is always the last one and is not enumerated: it takes every grid
+// value in [min, max], and the total band (collapsed to its target) leaves it a single choice.
+type BalancePayload = {
+  min: number;
+  max: number;
+};
+
+type OptimizationPayload = {
+  coefficients: number[];
+  direction: 'min' | 'max';
+  limit: number;
+};
+
+// Every mass (ranges, totals, group masses, balance bounds) is in integer grid units of
+// 1 / scale so that sums are exact; rows are converted back to ratios when emitted.
+export type SearchSetup = {
+  components: ComponentPayload[];
+  groupConfigs: Record<string, GroupConfig>;
+  propertyConstraints: PropertyConstraint[];
+  ratioConstraints: RatioConstraint[];
+  rules: string;
+  exclusiveSets: number[][];
+  implications: Implication[];
+  scale: number;
+  minTotal: number;
+  maxTotal: number;
+  balance: BalancePayload | null;
+  ranges: number[][];
+  epsilon: number;
+  optimization: OptimizationPayload | null;
+};
+
+// One search instance: plain runs keep at most maxResults rows, ranked runs their limit
+export type SearchPayload = SearchSetup & {
+  maxResults: number;
+  workerId: number;
+};
+
+// Where a task stopped: the cursor position of every open depth and its counters so far
+export type TaskCursor = {
+  taskId: number;
+  prefix: number[];
+  path: number[];
+  processed: number;
+  valid: number;
+};
+
+// Counters are per task, so the scheduler can aggregate progress across the pool
+export type ProgressMessage = {
+  type: 'progress' | 'taskDone';
+  workerId: number;
+  taskId: number;
+  processed: number;
+  valid: number;
+};
+
+export type ResultsMessage = {
+  type: 'results';
+  workerId: number;
+  rows: Float64Array;
+  rowCount: number;
+  scores?: Float64Array;
+};
+
+// How many raw leaves a constraint ruled out and how many branches it cut to do so
+export type Rejection = {
+  reason: string;
+  leaves: number;
+  prunes: number;
+};
+
+export type DoneMessage = {
+  type: 'done';
+  workerId: number;
+  stored: number;
+  rejections: Rejection[];
+};
+
+// Everything a paused worker holds that is not already with the scheduler: the cursor of
+// its unfinished task, its rejection tallies and, in optimisation mode, its ranked rows
+export type SnapshotMessage = {
+  type: 'snapshot';
+  workerId: number;
+  task: TaskCursor | null;
+  rejections: Rejection[];
+  rows: Float64Array | null;
+  scores: Float64Array | null;
+};
+
+const hasValue = (value: number | null | undefined): value is number =>
+  value !== null && value !== undefined;
+
+export type SearchMessage = ProgressMessage | ResultsMessage | DoneMessage | SnapshotMessage;
+
+// `post` receives everything the search reports; the host forwards it to the scheduler
+export const createSearch = (payload: SearchPayload, post: (message: SearchMessage) => void) => {
+  const {
+    components,
+    groupConfigs,
+    propertyConstraints,
+    ratioConstraints,
+    rules,
+    exclusiveSets,
+    implications,
+    scale,
+    minTotal,
+    maxTotal,
+    balance,
+    ranges,
+    epsilon,
+    maxResults,
+    optimization,
+    workerId,
+  } = payload;
+
+  const n = components.length;
+  let stopped = false;
+  let processed = 0;
+  let valid = 0;
+  let stored = 0;
+  const rowSize = n;
+  const batchSize = 200;
+  let rowsBuffer = new Float64Array(batchSize * rowSize);
+  let rowCount = 0;
+  const propertyCount = components[0]?.properties.length ?? 0;
+  const balanceIndex = balance ? n - 1 : -1;
+
+  // Candidate grid values per depth, ascending. The balance component is a contiguous
+  // interval rather than a list.
+  const rangeLength = (depth: number) =>
+    depth === balanceIndex && balance
+      ? Math.max(0, balance.max - balance.min + 1)
+      : ranges[depth].length;
+  const rangeValue = (depth: number, position: number) =>
+    depth === balanceIndex && balance ? balance.min + position : ranges[depth][position];
+  // First position whose value is >= target
+  const lowerBound = (depth: number, target: number) => {
+    if (depth === balanceIndex && balance) {
+      return Math.min(rangeLength(depth), Math.max(0, Math.ceil(target - balance.min)));
+    }
+    const range = ranges[depth];
+    let low = 0;
+    let high = range.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (range[mid] < target) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  };
+  const rangeMin = (depth: number) =>
+    depth === balanceIndex && balance ? balance.min : Math.min(...ranges[depth]);
+  const rangeMax = (depth: number) =>
+    depth === balanceIndex && balance ? balance.max : Math.max(...ranges[depth]);
+
+  // Groups as indices, with the mass bounds folded together (fixed mass is both)
+  const groupNames = Object.keys(groupConfigs);
+  const groupCount = groupNames.length;
+  const groupOf = components.map((comp) => groupNames.indexOf(comp.group));
+  const groupLow = groupNames.map((name) => {
+    const cfg = groupConfigs[name];
+    if (hasValue(cfg.fixedMass)) return Math.max(cfg.fixedMass, cfg.minMass ?? -Infinity);
+    return hasValue(cfg.minMass) ? cfg.minMass : -Infinity;
+  });
+  const groupHigh = groupNames.map((name) => {
+    const cfg = groupConfigs[name];
+    if (hasValue(cfg.fixedMass)) return Math.min(cfg.fixedMass, cfg.maxMass ?? Infinity);
+    return hasValue(cfg.maxMass) ? cfg.maxMass : Infinity;
+  });
+  const groupMinCount = groupNames.map((name) => groupConfigs[name].minCount ?? null);
+  const groupMaxCount = groupNames.map((name) => groupConfigs[name].maxCount ?? null);
+
+  // Every rejection is tallied under a readable reason so an empty run can be explained
+  const reasons: string[] = [];
+  const rejectedLeaves: number[] = [];
+  const pruneCounts: number[] = [];
+  const reasonId = (reason: string) => {
+    let id = reasons.indexOf(reason);
+    if (id < 0) {
+      id = reasons.length;
+      reasons.push(reason);
+      rejectedLeaves.push(0);
+      pruneCounts.push(0);
+    }
+    return id;
+  };
+  const reject = (reason: number, leaves: number) => {
+    rejectedLeaves[reason] += leaves;
+    pruneCounts[reason] += 1;
+  };
+  // With a balance the total is pinned to its target, so missing it means the balance
+  // cannot take up the remainder
+  const balanceName = balance ? components[balanceIndex].name : '';
+  const totalLowReason = reasonId(balance ? `Balance ${balanceName} maximum` : 'Total minimum');
+  const totalHighReason = reasonId(balance ? `Balance ${balanceName} minimum` : 'Total maximum');
+  const groupLowReason = groupNames.map((name) =>
+    reasonId(`Group ${name} ${hasValue(groupConfigs[name].fixedMass) ? 'fixedMass' : 'minMass'}`)
+  );
+  const groupHighReason = groupNames.map((name) =>
+    reasonId(`Group ${name} ${hasValue(groupConfigs[name].fixedMass) ? 'fixedMass' : 'maxMass'}`)
+  );
+  const groupMinCountReason = groupNames.map((name) => reasonId(`Group ${name} minCount`));
+  const groupMaxCountReason = groupNames.map((name) => reasonId(`Group ${name} maxCount`));
+
+  // Suffix bounds from depth d onwards: total mass, mass per group and how many members of a
+  // group can still be present. They let each depth slice its range down to the values that
+  // can still reach the total and group bands.
+  const suffixMin = new Float64Array(n + 1);
+  const suffixMax = new Float64Array(n + 1);
+  const groupSuffixMin = new Float64Array((n + 1) * groupCount);
+  const groupSuffixMax = new Float64Array((n + 1) * groupCount);
+  const groupSuffixPossible = new Float64Array((n + 1) * groupCount);
+  // remainingLeaves[d] is the size of the raw search space below depth d, used to keep the
+  // processed counter comparable to the raw product when subtrees are skipped
+  const remainingLeaves = new Array<number>(n + 1).fill(1);
+  for (let d = n - 1; d >= 0; d -= 1) {
+    const low = rangeMin(d);
+    const high = rangeMax(d);
+    suffixMin[d] = suffixMin[d + 1] + low;
+    suffixMax[d] = suffixMax[d + 1] + high;
+    for (let g = 0; g < groupCount; g += 1) {
+      const member = groupOf[d] === g;
+      groupSuffixMin[d * groupCount + g] =
+        groupSuffixMin[(d + 1) * groupCount + g] + (member ? low : 0);
+      groupSuffixMax[d * groupCount + g] =
+        groupSuffixMax[(d + 1) * groupCount + g] + (member ? high : 0);
+      groupSuffixPossible[d * groupCount + g] =
+        groupSuffixPossible[(d + 1) * groupCount + g] + (member && high > 0 ? 1 : 0);
+    }
+    remainingLeaves[d] = remainingLeaves[d + 1] * (d === balanceIndex ? 1 : ranges[d].length);
+  }
+
+  // State after the first d components are assigned
+  const units = new Float64Array(n);
+  const values = new Float64Array(n);
+  const sumAt = new Float64Array(n + 1);
+  const groupMassAt = new Float64Array((n + 1) * groupCount);
+  const groupCountAt = new Float64Array((n + 1) * groupCount);
+  const propertyAt = new Float64Array((n + 1) * propertyCount);
+  const scoreAt = new Float64Array(n + 1);
+  // Position in the candidate slice of each depth and the end of that slice
+  const cursor = new Int32Array(n);
+  const sliceEnd = new Int32Array(n);
+  // The current task pins the leading depths to its prefix and covers taskLeaves raw leaves
+  let taskPrefix: number[] = [];
+  let taskLeaves = 0;
+  const leavesBelow = (depth: number) =>
+    depth < taskPrefix.length ? taskLeaves : remainingLeaves[depth + 1];
+
+  const flushRows = () => {
+    if (rowCount === 0) return;
+    const slice = rowsBuffer.subarray(0, rowCount * rowSize);
+    post({ type: 'results', workerId, rows: slice, rowCount });
+    rowsBuffer = new Float64Array(batchSize * rowSize);
+    rowCount = 0;
+  };
+
+  // Optimisation mode keeps only the best `limit` rows. Scores are always minimised, so a
+  // maximised objective is negated; the heap keeps the worst retained score at its root.
+  const sign = optimization?.direction === 'max' ? -1 : 1;
+  const coefficients = optimization
+    ? optimization.coefficients.map((coefficient) => coefficient * sign)
+    : [];
+  const heapScores: number[] = [];
+  const heapRows: number[][] = [];
+  // bestRemaining[i] is the lowest score components i..n-1 can still add
+  const bestRemaining = new Array<number>(n + 1).fill(0);
+  for (let i = n - 1; i >= 0; i -= 1) {
+    const best = optimization
+      ? Math.min(rangeMin(i) * coefficients[i], rangeMax(i) * coefficients[i]) / scale
+      : 0;
+    bestRemaining[i] = bestRemaining[i + 1] + best;
+  }
+
+  // Remaining min/max mass of each ratio side from component i onwards, used to prune a
+  // branch as soon as no completion can bring the ratio back inside its bounds
+  const sideBounds = (indices: number[]) => {
+    const low = new Array<number>(n + 1).fill(0);
+    const high = new Array<number>(n + 1).fill(0);
+    for (let i = n - 1; i >= 0; i -= 1) {
+      const member = indices.includes(i);
+      low[i] = low[i + 1] + (member ? rangeMin(i) / scale : 0);
+      high[i] = high[i + 1] + (member ? rangeMax(i) / scale : 0);
+    }
+    return { low, high };
+  };
+  const ratioBounds = ratioConstraints.map((constraint) => ({
+    numerator: sideBounds(constraint.numerator),
+    denominator: sideBounds(constraint.denominator),
+  }));
+  const ratioReasons = ratioConstraints.map((constraint) => ({
+    min: reasonId(`Ratio ${constraint.label} minimum`),
+    max: reasonId(`Ratio ${constraint.label} maximum`),
+  }));
+  // Reason of the first ratio that can no longer be met, or -1
+  const ratiosFeasible = (depth: number) => {
+    const assigned = depth + 1;
+    for (let r = 0; r < ratioConstraints.length; r += 1) {
+      const constraint = ratioConstraints[r];
+      const bounds = ratioBounds[r];
+      let num = 0;
+      let den = 0;
+      for (const i of constraint.numerator) {
+        if (i < assigned) num += values[i];
+      }
+      for (const i of constraint.denominator) {
+        if (i < assigned) den += values[i];
+      }
+      if (constraint.max !== null) {
+        const numLow = num + bounds.numerator.low[assigned];
+        const denHigh = den + bounds.denominator.high[assigned];
+        if (numLow > constraint.max * denHigh + epsilon) return ratioReasons[r].max;
+      }
+      if (constraint.min !== null) {
+        const numHigh = num + bounds.numerator.high[assigned];
+        const denLow = den + bounds.denominator.low[assigned];
+        if (numHigh < constraint.min * denLow - epsilon) return ratioReasons[r].min;
+      }
+    }
+    return -1;
+  };
+
+  // Each rule is evaluated once the last component it reads has been assigned
+  const rulesAt: { rule: CompiledRule; reason: number }[][] = components.map(() => []);
+  for (const rule of compileRules(rules, components, epsilon)) {
+    rulesAt[Math.max(0, rule.lastIndex)].push({
+      rule,
+      reason: reasonId(`Rule line ${rule.line}: ${rule.source}`),
+    });
+  }
+  const rulesPass = (depth: number) => {
+    for (const { rule, reason } of rulesAt[depth]) {
+      if (!rule.test(values)) return reason;
+    }
+    return -1;
+  };
+
+  // Exclusion sets and implications are decided as soon as their last member is assigned,
+  // which rejects the whole subtree below that component
+  const exclusiveAt: { earlier: number[]; reason: number }[][] = components.map(() => []);
+  for (const set of exclusiveSets) {
+    const reason = reasonId(
+      `Exclusive set ${set.map((index) => components[index].name).join(', ')}`
+    );
+    for (const index of set) {
+      exclusiveAt[index].push({ earlier: set.filter((other) => other < index), reason });
+    }
+  }
+  const implicationsAt: { implication: Implication; reason: number }[][] = components.map(
+    () => []
+  );
+  for (const implication of implications) {
+    const { source, target, kind } = implication;
+    implicationsAt[Math.max(source, target)].push({
+      implication,
+      reason: reasonId(`${components[source].name} ${kind} ${components[target].name}`),
+    });
+  }
+  const logicPasses = (depth: number) => {
+    if (values[depth] > 0) {
+      for (const { earlier, reason } of exclusiveAt[depth]) {
+        for (const other of earlier) {
+          if (values[other] > 0) return reason;
+        }
+      }
+    }
+    for (const { implication, reason } of implicationsAt[depth]) {
+      const { source, target, kind } = implication;
+      if (values[source] <= 0) continue;
+      if (kind === 'requires' ? values[target] <= 0 : values[target] > 0) return reason;
+    }
+    return -1;
+  };
+
+  const outrankedReason = reasonId('Outranked by the kept formulas');
+  const worstKept = () =>
+    optimization && heapScores.length >= optimization.limit ? heapScores[0] : Infinity;
+  const heapSwap = (a: number, b: number) => {
+    [heapScores[a], heapScores[b]] = [heapScores[b], heapScores[a]];
+    [heapRows[a], heapRows[b]] = [heapRows[b], heapRows[a]];
+  };
+  const heapPush = (score: number, row: number[]) => {
+    if (!optimization) return;
+    if (heapScores.length < optimization.limit) {
+      heapScores.push(score);
+      heapRows.push(row);
+      let i = heapScores.length - 1;
+      while (i > 0) {
+        const parent = (i - 1) >> 1;
+        if (heapScores[parent] >= heapScores[i]) break;
+        heapSwap(i, parent);
+        i = parent;
+      }
+      return;
+    }
+    if (score >= heapScores[0]) return;
+    heapScores[0] = score;
+    heapRows[0] = row;
+    let i = 0;
+    for (;;) {
+      const left = i * 2 + 1;
+      const right = left + 1;
+      let largest = i;
+      if (left < heapScores.length && heapScores[left] > heapScores[largest]) largest = left;
+      if (right < heapScores.length && heapScores[right] > heapScores[largest]) largest = right;
+      if (largest === i) break;
+      heapSwap(i, largest);
+      i = largest;
+    }
+  };
+  const rankedRows = () => {
+    const order = heapScores.map((_, i) => i).sort((a, b) => heapScores[a] - heapScores[b]);
+    const rows = new Float64Array(order.length * rowSize);
+    const scores = new Float64Array(order.length);
+    order.forEach((heapIndex, i) => {
+      rows.set(heapRows[heapIndex], i * rowSize);
+      scores[i] = heapScores[heapIndex] * sign;
+    });
+    return { rows, scores, rowCount: order.length };
+  };
+  const flushRanked = () => {
+    post({ type: 'results', workerId, ...rankedRows() });
+  };
+
+  // The slice of depth d whose values keep the total and the component's group reachable,
+  // with the constraint that bounds each side
+  const sliceBounds = (depth: number) => {
+    const sum = sumAt[depth];
+    let low = minTotal - sum - suffixMax[depth + 1];
+    let high = maxTotal - sum - suffixMin[depth + 1];
+    let lowReason = totalLowReason;
+    let highReason = totalHighReason;
+    const g = groupOf[depth];
+    if (g >= 0) {
+      const mass = groupMassAt[depth * groupCount + g];
+      const next = (depth + 1) * groupCount + g;
+      const groupLowBound = groupLow[g] - mass - groupSuffixMax[next];
+      const groupHighBound = groupHigh[g] - mass - groupSuffixMin[next];
+      if (groupLowBound > low) {
+        low = groupLowBound;
+        lowReason = groupLowReason[g];
+      }
+      if (groupHighBound < high) {
+        high = groupHighBound;
+        highReason = groupHighReason[g];
+      }
+    }
+    const length = rangeLength(depth);
+    const start = lowerBound(depth, low);
+    const end = Math.max(start, lowerBound(depth, high + 1));
+    return { length, start, end, lowReason, highReason };
+  };
+  // Leading depths are pinned to the task's prefix, empty when the slice excludes it
+  const pinnedEnd = (depth: number, start: number, end: number) => {
+    const position = taskPrefix[depth];
+    return position >= start && position < end ? position + 1 : position;
+  };
+
+  // Narrow depth d to its slice, counting everything outside it as processed
+  const openDepth = (depth: number) => {
+    const { length, start, end, lowReason, highReason } = sliceBounds(depth);
+    if (depth < taskPrefix.length) {
+      const position = taskPrefix[depth];
+      cursor[depth] = position;
+      sliceEnd[depth] = pinnedEnd(depth, start, end);
+      if (sliceEnd[depth] === position) {
+        processed += taskLeaves;
+        reject(position < start ? lowReason : highReason, taskLeaves);
+      }
+      return;
+    }
+    cursor[depth] = start;
+    sliceEnd[depth] = end;
+    const leaves = remainingLeaves[depth + 1];
+    if (depth === balanceIndex) {
+      // The balance depth stands for a single leaf per parent in the raw search space
+      if (end === start) {
+        processed += leaves;
+        reject(start >= length ? lowReason : highReason, leaves);
+      }
+      return;
+    }
+    processed += (length - (end - start)) * leaves;
+    if (start > 0) reject(lowReason, start * leaves);
+    if (end < length) reject(highReason, (length - end) * leaves);
+  };
+
+  // Assign the value at the cursor of `depth` and derive the state for depth + 1.
+  // Returns the reason of the constraint the value breaks at this depth, or -1.
+  const assign = (depth: number) => {
+    const unit = rangeValue(depth, cursor[depth]);
+    const value = unit / scale;
+    units[depth] = unit;
+    values[depth] = value;
+    const next = depth + 1;
+    sumAt[next] = sumAt[depth] + unit;
+    for (let g = 0; g < groupCount; g += 1) {
+      groupMassAt[next * groupCount + g] = groupMassAt[depth * groupCount + g];
+      groupCountAt[next * groupCount + g] = groupCountAt[depth * groupCount + g];
+    }
+    const g = groupOf[depth];
+    if (g >= 0 && unit > 0) {
+      groupMassAt[next * groupCount + g] += unit;
+      groupCountAt[next * groupCount + g] += 1;
+    }
+    if (g >= 0) {
+      const count = groupCountAt[next * groupCount + g];
+      const maxCount = groupMaxCount[g];
+      const minCount = groupMinCount[g];
+      if (maxCount !== null && count > maxCount) return groupMaxCountReason[g];
+      if (minCount !== null && count + groupSuffixPossible[next * groupCount + g] < minCount) {
+        return groupMinCountReason[g];
+      }
+    }
+    const ratioReason = ratiosFeasible(depth);
+    if (ratioReason >= 0) return ratioReason;
+    const logicReason = logicPasses(depth);
+    if (logicReason >= 0) return logicReason;
+    const ruleReason = rulesPass(depth);
+    if (ruleReason >= 0) return ruleReason;
+    const comp = components[depth];
+    for (let p = 0; p < propertyCount; p += 1) {
+      propertyAt[next * propertyCount + p] =
+        propertyAt[depth * propertyCount + p] + value * comp.properties[p];
+    }
+    if (optimization) {
+      scoreAt[next] = scoreAt[depth] + value * coefficients[depth];
+      if (scoreAt[next] + bestRemaining[next] >= worstKept()) return outrankedReason;
+    }
+    return -1;
+  };
+
+  // Total and group masses are already guaranteed by the slicing; blended properties need
+  // the full row. Returns the reason of the first failing constraint, or -1.
+  const propertyReasons = propertyConstraints.map((constraint) => ({
+    min: reasonId(`Blended ${constraint.label} minimum`),
+    max: reasonId(`Blended ${constraint.label} maximum`),
+  }));
+  const acceptLeaf = () => {
+    const total = sumAt[n] / scale;
+    for (let c = 0; c < propertyConstraints.length; c += 1) {
+      const constraint = propertyConstraints[c];
+      const blended = total > 0 ? propertyAt[n * propertyCount + constraint.propertyIndex] / total : 0;
+      if (constraint.min !== null && blended < constraint.min - epsilon) {
+        return propertyReasons[c].min;
+      }
+      if (constraint.max !== null && blended > constraint.max + epsilon) {
+        return propertyReasons[c].max;
+      }
+    }
+    return -1;
+  };
+
+  const storeLeaf = () => {
+    valid += 1;
+    if (optimization) {
+      heapPush(scoreAt[n], Array.from(values));
+    } else if (stored < maxResults) {
+      rowsBuffer.set(values, rowCount * rowSize);
+      rowCount += 1;
+      stored += 1;
+      if (rowCount >= batchSize) {
+        flushRows();
+      }
+    }
+  };
+
+  // Group bands that no assignment at all can reach (e.g. a group without members that
+  // still has a minimum) rule out the whole search space up front
+  const unreachableGroupReason = (g: number) => {
+    if (groupSuffixMax[g] < groupLow[g]) return groupLowReason[g];
+    if (groupSuffixMin[g] > groupHigh[g]) return groupHighReason[g];
+    if (groupMinCount[g] !== null && groupSuffixPossible[g] < groupMinCount[g]) {
+      return groupMinCountReason[g];
+    }
+    return -1;
+  };
+  const unreachableGroup = groupNames.findIndex((_, g) => unreachableGroupReason(g) >= 0);
+
+  // The task being walked and the depth it is at, kept between slices so that the walk
+  // can yield to incoming messages and report where it stopped
+  let taskId = -1;
+  let depth = -1;
+  let steps = 0;
+
+  // Rebuild the state along a reported cursor path without counting anything twice
+  const restore = (path: number[]) => {
+    for (let d = 0; d < path.length; d += 1) {
+      const { start, end } = sliceBounds(d);
+      cursor[d] = path[d];
+      sliceEnd[d] = d < taskPrefix.length ? pinnedEnd(d, start, end) : end;
+      if (d < path.length - 1) assign(d);
+    }
+    depth = path.length - 1;
+  };
+
+  const startTask = (id: number, prefix: number[], resume?: TaskCursor) => {
+    taskId = id;
+    taskPrefix = prefix;
+    taskLeaves = remainingLeaves[prefix.length];
+    processed = resume?.processed ?? 0;
+    valid = resume?.valid ?? 0;
+    depth = -1;
+    if (resume) {
+      restore(resume.path);
+    } else if (unreachableGroup >= 0) {
+      processed = n > 0 ? taskLeaves : 0;
+      reject(unreachableGroupReason(unreachableGroup), processed);
+    } else if (n > 0) {
+      depth = 0;
+      openDepth(0);
+    }
+  };
+
+  // Depth-first walk with an explicit cursor per depth instead of recursion, for at most
+  // `budget` steps. Returns true once the task is complete.
+  const walk = (budget: number) => {
+    if (taskId < 0) return true;
+    for (let step = 0; depth >= 0 && !stopped; step += 1) {
+      if (step >= budget) return false;
+      if (cursor[depth] >= sliceEnd[depth]) {
+        depth -= 1;
+        if (depth >= 0) cursor[depth] += 1;
+        continue;
+      }
+      steps += 1;
+      if (steps % 20000 === 0) {
+        post({ type: 'progress', workerId, taskId, processed, valid });
+      }
+      const rejected = assign(depth);
+      if (rejected >= 0) {
+        const leaves = leavesBelow(depth);
+        processed += leaves;
+        reject(rejected, leaves);
+        cursor[depth] += 1;
+        continue;
+      }
+      if (depth + 1 === n) {
+        processed += 1;
+        const leafRejected = acceptLeaf();
+        if (leafRejected >= 0) reject(leafRejected, 1);
+        else storeLeaf();
+        cursor[depth] += 1;
+        continue;
+      }
+      depth += 1;
+      openDepth(depth);
+    }
+    if (!optimization) flushRows();
+    post({ type: 'taskDone', workerId, taskId, processed, valid });
+    taskId = -1;
+    return true;
+  };
+
+  const rejectionTallies = () =>
+    reasons
+      .map((reason, id) => ({ reason, leaves: rejectedLeaves[id], prunes: pruneCounts[id] }))
+      .filter((rejection) => rejection.prunes > 0);
+
+  // Rows found so far are flushed first, so the scheduler holds them before the snapshot
+  const snapshot = () => {
+    if (!optimization) flushRows();
+    const ranked = optimization ? rankedRows() : null;
+    post({
+      type: 'snapshot',
+      workerId,
+      task:
+        taskId >= 0
+          ? {
+              taskId,
+              prefix: taskPrefix,
+              path: Array.from(cursor.subarray(0, depth + 1)),
+              processed,
+              valid,
+            }
+          : null,
+      rejections: rejectionTallies(),
+      rows: ranked?.rows ?? null,
+      scores: ranked?.scores ?? null,
+    });
+  };
+
+  // The ranked heap spans every task this worker ran, so it is only sent at the end
+  const finish = () => {
+    if (optimization) {
+      stored = heapScores.length;
+      flushRanked();
+    }
+    post({ type: 'done', workerId, stored, rejections: rejectionTallies() });
+  };
+
+  return {
+    startTask,
+    walk,
+    snapshot,
+    finish,
+    hasTask: () => taskId >= 0,
+    // Hands over the rows of a partial batch, for hosts that stream between slices
+    flush: () => {
+      if (!optimization) flushRows();
+    },
+    stop: () => {
+      stopped = true;
+    },
+  };
+};
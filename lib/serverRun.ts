@@ -0,0 +1,156 @@
+// Generation without workers, for the HTTP API: a single search walks the whole space in
+// slices on the server's event loop, yielding between slices so other requests are served.
+// Rows come out in the order a one-worker run of the app or the CLI writes them, which
+// keeps offset / limit pages stable from one request to the next. A request walks at most a
+// set number of search steps, beyond that it is answered with a 422. Steps, not combinations:
+// a pruned subtree counts its every leaf as processed at the cost of one step.
+
+import { ApiError } from './apiRequest';
+import { createRowWriter, mergeRanked, OutputFormat, readRow } from './engine';
+import { RunPlan } from './runPlan';
+import { createSearch, Rejection, SearchMessage } from './search';
+
+export type RowPage = {
+  format: OutputFormat;
+  unit: 'ratio' | 'percent';
+  // Valid rows to skip before the page starts, then rows the page holds at most
+  offset: number;
+  limit: number;
+};
+
+export type CombinationCount = {
+  processed: number;
+  valid: number;
+  rejections: Rejection[];
+};
+
+// Steps walked between two turns of the event loop
+const sliceSteps = 100000;
+
+const nextTurn = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+const stepLimitError = (stepLimit: number) =>
+  new ApiError(
+    422,
+    `The search takes more than ${stepLimit.toLocaleString('en-US')} steps, more than one request may. Narrow the setup or run it in the app or the CLI.`
+  );
+
+// One page of rows as a stream. Plain runs stop walking as soon as the page is full; ranked
+// runs have to finish the search before the first row is known, and page through the kept
+// rows. The page is complete before the stream is returned, so a run over `stepLimit` is
+// turned down with a status instead of breaking off a started response. `signal` ends the
+// walk early when the client goes away.
+export const createRowStream = async (
+  plan: RunPlan,
+  columns: string[],
+  page: RowPage,
+  stepLimit: number,
+  signal?: AbortSignal
+) => {
+  const { columnSource, search } = plan;
+  const ranked = search.optimization;
+  const encoder = new TextEncoder();
+  const pending: string[] = [];
+  const rankedRows: number[][] = [];
+  let skipped = 0;
+  let sent = 0;
+  const writer = createRowWriter(
+    page.format,
+    columns,
+    page.unit,
+    ranked ? plan.objectiveLabel : null,
+    (chunk) => pending.push(chunk)
+  );
+  const take = (rows: number[][]) => {
+    const skip = Math.min(rows.length, page.offset - skipped);
+    skipped += skip;
+    const kept = rows.slice(skip, skip + page.limit - sent);
+    writer.writeRows(kept);
+    sent += kept.length;
+  };
+  const post = (message: SearchMessage) => {
+    if (message.type !== 'results') return;
+    const rows = Array.from({ length: message.rowCount }, (_, index) =>
+      readRow(message.rows, index, columnSource)
+    );
+    if (message.scores) {
+      rows.forEach((row, index) => rankedRows.push([...row, message.scores[index]]));
+    } else {
+      take(rows);
+    }
+  };
+  const runner = createSearch(
+    { ...search, maxResults: page.offset + page.limit, workerId: 0 },
+    post
+  );
+  runner.startTask(0, []);
+
+  let steps = 0;
+  for (;;) {
+    let complete = runner.walk(sliceSteps);
+    runner.flush();
+    if (!complete && !ranked && sent >= page.limit) {
+      runner.stop();
+      complete = true;
+    }
+    if (complete) break;
+    steps += sliceSteps;
+    if (signal?.aborted) {
+      runner.stop();
+      break;
+    }
+    if (steps >= stepLimit) {
+      runner.stop();
+      throw stepLimitError(stepLimit);
+    }
+    await nextTurn();
+  }
+  runner.finish();
+  if (ranked) take(mergeRanked(rankedRows, ranked.direction, ranked.limit));
+  writer.end();
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(pending.join('')));
+      controller.close();
+    },
+  });
+};
+
+// Walks the whole space keeping no rows, for an exact count when the analysis can only give
+// an upper bound. `signal` ends the walk early when the client goes away.
+export const countCombinations = async (
+  plan: RunPlan,
+  stepLimit: number,
+  signal?: AbortSignal
+): Promise<CombinationCount> => {
+  let processed = 0;
+  let valid = 0;
+  let rejections: Rejection[] = [];
+  const runner = createSearch(
+    { ...plan.search, optimization: null, maxResults: 0, workerId: 0 },
+    (message) => {
+      if (message.type === 'taskDone') {
+        processed = message.processed;
+        valid = message.valid;
+      }
+      if (message.type === 'done') rejections = message.rejections;
+    }
+  );
+  runner.startTask(0, []);
+  let steps = 0;
+  while (!runner.walk(sliceSteps)) {
+    steps += sliceSteps;
+    if (signal?.aborted) {
+      runner.stop();
+      break;
+    }
+    if (steps >= stepLimit) {
+      runner.stop();
+      throw stepLimitError(stepLimit);
+    }
+    await nextTurn();
+  }
+  runner.finish();
+  return { processed, valid, rejections };
+};
@@ -0,0 +1,115 @@
+// Undo history of the working setup. Every settled change is kept as a full snapshot with a
+// short label of what changed; keystrokes on the same field close together are merged into
+// one step so undo goes back a whole value, not a character.
+
+import { diffSetups } from './setupLibrary';
+import { Setup } from './setupSchema';
+
+export type HistoryEntry = {
+  setup: Setup;
+  label: string;
+  // What was edited, steps on the same target merge while typing
+  target: string;
+  at: number;
+};
+
+export type SetupHistory = {
+  entries: HistoryEntry[];
+  // Entry the working setup is at; entries after it can be redone
+  index: number;
+};
+
+export const emptyHistory: SetupHistory = { entries: [], index: -1 };
+
+export const historyLimit = 100;
+
+// Changes to the same field within this window merge into a single step
+const mergeWindowMs = 1000;
+
+const emptyGroup = {
+  minMass: null,
+  maxMass: null,
+  fixedMass: null,
+  minCount: null,
+  maxCount: null,
+};
+
+// Snapshot identity ignoring the group configs the app adds or drops on its own whenever a
+// component moves group, so that bookkeeping never shows up as a step of its own
+const setupKey = (setup: Setup) => {
+  const groups = Array.from(new Set(setup.components.map((comp) => comp.group))).sort();
+  return JSON.stringify({
+    ...setup,
+    groupConfigs: groups.map((group) => ({ ...emptyGroup, ...setup.groupConfigs[group], name: group })),
+  });
+};
+
+export const describeChange = (previous: Setup, next: Setup) => {
+  const previousIds = previous.components.map((comp) => comp.id);
+  const nextIds = next.components.map((comp) => comp.id);
+  if (nextIds.length === previousIds.length + 1) {
+    const added = next.components.find((comp) => !previousIds.includes(comp.id));
+    if (added) return { label: `Added ${added.name}`, target: `add:${added.id}` };
+  }
+  if (nextIds.length === previousIds.length - 1) {
+    const removed = previous.components.find((comp) => !nextIds.includes(comp.id));
+    if (removed) return { label: `Removed ${removed.name}`, target: `remove:${removed.id}` };
+  }
+  if (previousIds.join('|') === nextIds.join('|')) {
+    const renamed = next.components.find(
+      (comp, index) => comp.name !== previous.components[index].name
+    );
+    if (renamed) return { label: `Renamed ${renamed.name}`, target: `name:${renamed.id}` };
+  }
+  const changed = diffSetups(previous, next).filter((row) => row.changed);
+  if (changed.length === 0) return { label: 'Edited setup', target: 'setup' };
+  if (changed.length > 1 && new Set(changed.map((row) => row.item)).size > 1) {
+    return { label: `Changed ${changed.length} fields`, target: 'setup' };
+  }
+  const { section, item, field } = changed[0];
+  const label =
+    section === 'Groups' ? `Group ${item}: ${field}` : item ? `${item}: ${field}` : field;
+  return { label, target: `${section}:${item}:${field}` };
+};
+
+// Adds the setup as the newest step, dropping any redo steps. A label forces a separate step
+// (imports, library loads); otherwise the change is described from the previous snapshot
+export const recordSetup = (
+  history: SetupHistory,
+  setup: Setup,
+  now: number,
+  label?: string
+): SetupHistory => {
+  const current = history.entries[history.index];
+  if (!current) {
+    return {
+      entries: [{ setup, label: label ?? 'Opened setup', target: 'open', at: now }],
+      index: 0,
+    };
+  }
+  if (setupKey(current.setup) === setupKey(setup)) {
+    // Only bookkeeping changed, or an undo landed here; keep the fresher snapshot
+    const entries = history.entries.slice();
+    entries[history.index] = { ...current, setup };
+    return { entries, index: history.index };
+  }
+  const entries = history.entries.slice(0, history.index + 1);
+  const change = label ? { label, target: `labelled:${now}` } : describeChange(current.setup, setup);
+  if (
+    history.index > 0 &&
+    history.index === history.entries.length - 1 &&
+    current.target === change.target &&
+    now - current.at < mergeWindowMs
+  ) {
+    entries[entries.length - 1] = { ...change, setup, at: now };
+    return { entries, index: entries.length - 1 };
+  }
+  entries.push({ ...change, setup, at: now });
+  const trimmed = entries.slice(-historyLimit);
+  return { entries: trimmed, index: trimmed.length - 1 };
+};
+
+export const moveHistory = (history: SetupHistory, index: number): SetupHistory => ({
+  ...history,
+  index: Math.max(0, Math.min(history.entries.length - 1, index)),
+});
@@ -0,0 +1,270 @@
+// Library of named setups kept in this browser, next to the working setup, so several product
+// families can be switched between without exporting files. Entries are stored as versioned
+// setup files and go through the same migrations and checks as an imported file when read.
+// The diff lines two setups up by component and group name, field by field.
+
+import { designLabel, readDesignSettings } from './sampling';
+import { parseSetup, Setup, SetupFile, toSetupFile } from './setupSchema';
+
+export const libraryKey = 'combinationAppLibrary';
+
+export type LibraryEntry = {
+  id: string;
+  name: string;
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+  setup: SetupFile;
+};
+
+export type SetupDiffRow = {
+  section: 'Settings' | 'Components' | 'Groups' | 'Constraints';
+  // Component or group name, empty for setup-wide settings
+  item: string;
+  field: string;
+  // Null when the item does not exist on that side
+  left: string | null;
+  right: string | null;
+  changed: boolean;
+};
+
+const libraryId = () => Math.random().toString(36).substring(2, 9);
+
+export const loadLibrary = (): LibraryEntry[] => {
+  const stored = window.localStorage.getItem(libraryKey);
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored) as LibraryEntry[];
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap((entry) => {
+      try {
+        const { setup } = parseSetup(JSON.stringify(entry.setup));
+        return [
+          {
+            id: typeof entry.id === 'string' ? entry.id : libraryId(),
+            name: typeof entry.name === 'string' ? entry.name : 'Untitled setup',
+            tags: Array.isArray(entry.tags)
+              ? entry.tags.filter((tag) => typeof tag === 'string')
+              : [],
+            createdAt: Number(entry.createdAt) || Date.now(),
+            updatedAt: Number(entry.updatedAt) || Date.now(),
+            setup: toSetupFile(setup),
+          },
+        ];
+      } catch (error) {
+        console.warn(`Skipped the unreadable library setup "${entry?.name}".`, error);
+        return [];
+      }
+    });
+  } catch (error) {
+    console.warn('Failed to read the setup library.', error);
+    return [];
+  }
+};
+
+export const saveLibrary = (entries: LibraryEntry[]) => {
+  window.localStorage.setItem(libraryKey, JSON.stringify(entries));
+};
+
+export const createEntry = (name: string, setup: Setup, tags: string[] = []): LibraryEntry => {
+  const now = Date.now();
+  return { id: libraryId(), name, tags, createdAt: now, updatedAt: now, setup: toSetupFile(setup) };
+};
+
+// Comma separated tags as typed, trimmed and without repeats
+export const parseTags = (text: string) =>
+  Array.from(
+    new Set(
+      text
+        .split(',')
+        .map((tag) => tag.trim())
+        .filter((tag) => tag.length > 0)
+    )
+  );
+
+type DiffValue = number | string | boolean | null | undefined;
+
+const isBlank = (value: DiffValue) => value === null || value === undefined || value === '';
+
+const numeric = (value: DiffValue) =>
+  typeof value === 'number' ? value : Number(String(value).replace(',', '.'));
+
+// Masses typed but not yet committed are strings in the input unit, stored ones are ratios
+const massValue = (value: DiffValue, unit: Setup['inputUnit']) => {
+  if (isBlank(value)) return null;
+  const parsed = numeric(value);
+  if (!Number.isFinite(parsed)) return null;
+  return typeof value === 'string' && unit === 'percent' ? parsed / 100 : parsed;
+};
+
+const formatMass = (value: number | null) =>
+  value === null ? '—' : `${Number((value * 100).toPrecision(12))}%`;
+
+const formatPlain = (value: DiffValue) => {
+  if (isBlank(value)) return '—';
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  const parsed = numeric(value);
+  return Number.isFinite(parsed) ? `${Number(parsed.toPrecision(12))}` : String(value);
+};
+
+const formatLevels = (comp: Setup['components'][number], unit: Setup['inputUnit']) => {
+  const { levels } = comp;
+  if (!levels) return 'Range';
+  if (levels.mode === 'list') return levels.values.map(formatMass).join(', ');
+  const start = formatMass(massValue(levels.start, unit));
+  const end = formatMass(massValue(levels.end, unit));
+  return `Geometric ${start} to ${end}, ${formatPlain(levels.count)} levels${
+    levels.zero ? ' and 0' : ''
+  }`;
+};
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+export const diffSetups = (left: Setup, right: Setup): SetupDiffRow[] => {
+  const rows: SetupDiffRow[] = [];
+  const push = (
+    section: SetupDiffRow['section'],
+    item: string,
+    field: string,
+    leftValue: string | null,
+    rightValue: string | null
+  ) => {
+    rows.push({
+      section,
+      item,
+      field,
+      left: leftValue,
+      right: rightValue,
+      changed: leftValue !== rightValue,
+    });
+  };
+  const massPair = (leftValue: DiffValue, rightValue: DiffValue): [string, string] => [
+    formatMass(massValue(leftValue, left.inputUnit)),
+    formatMass(massValue(rightValue, right.inputUnit)),
+  ];
+
+  push('Settings', '', 'Input unit', left.inputUnit, right.inputUnit);
+  push('Settings', '', 'Total minimum', ...massPair(left.minTotal, right.minTotal));
+  push('Settings', '', 'Total maximum', ...massPair(left.maxTotal, right.maxTotal));
+  const design = (setup: Setup) => designLabel(readDesignSettings(setup.sampling));
+  push('Settings', '', 'Sampling design', design(left), design(right));
+
+  // Components line up by name; ids differ between setups that were built separately
+  const leftNames = new Map(left.components.map((comp) => [comp.id, comp.name]));
+  const rightNames = new Map(right.components.map((comp) => [comp.id, comp.name]));
+  const properties = Array.from(new Set([...left.propertyNames, ...right.propertyNames]));
+  const componentFields = (
+    comp: Setup['components'][number],
+    setup: Setup,
+    names: Map<string, string>
+  ): [string, string][] => {
+    const links = (ids: string[] | undefined) =>
+      (ids ?? [])
+        .map((id) => names.get(id) ?? id)
+        .sort()
+        .join(', ') || '—';
+    return [
+      ['Group', comp.group],
+      ['Min', formatMass(massValue(comp.min, setup.inputUnit))],
+      ['Max', formatMass(massValue(comp.max, setup.inputUnit))],
+      ['Step', formatMass(massValue(comp.step, setup.inputUnit))],
+      ['Fixed', formatMass(massValue(comp.fixed, setup.inputUnit))],
+      ['Levels', formatLevels(comp, setup.inputUnit)],
+      ['Balance', formatPlain(comp.balance ?? false)],
+      ['Price', formatPlain(comp.price)],
+      ['Exclusive set', comp.exclusiveSet || '—'],
+      ['Requires', links(comp.requires)],
+      ['Forbids', links(comp.forbids)],
+      ...properties.map((property): [string, string] => [
+        property,
+        formatPlain(comp.properties?.[property]),
+      ]),
+    ];
+  };
+  const componentKeys = Array.from(
+    new Set([...left.components, ...right.components].map((comp) => nameKey(comp.name)))
+  );
+  for (const key of componentKeys) {
+    const a = left.components.find((comp) => nameKey(comp.name) === key);
+    const b = right.components.find((comp) => nameKey(comp.name) === key);
+    const aFields = a ? componentFields(a, left, leftNames) : null;
+    const bFields = b ? componentFields(b, right, rightNames) : null;
+    const labels = (aFields ?? bFields ?? []).map(([label]) => label);
+    labels.forEach((label, index) => {
+      push(
+        'Components',
+        (a ?? b)?.name ?? key,
+        label,
+        aFields ? aFields[index][1] : null,
+        bFields ? bFields[index][1] : null
+      );
+    });
+  }
+
+  const groupNames = Array.from(
+    new Set([...Object.keys(left.groupConfigs), ...Object.keys(right.groupConfigs)])
+  ).sort();
+  for (const group of groupNames) {
+    const a = left.groupConfigs[group];
+    const b = right.groupConfigs[group];
+    const masses: [string, 'minMass' | 'maxMass' | 'fixedMass'][] = [
+      ['Min mass', 'minMass'],
+      ['Max mass', 'maxMass'],
+      ['Fixed mass', 'fixedMass'],
+    ];
+    for (const [label, key] of masses) {
+      push(
+        'Groups',
+        group,
+        label,
+        a ? formatMass(massValue(a[key], left.inputUnit)) : null,
+        b ? formatMass(massValue(b[key], right.inputUnit)) : null
+      );
+    }
+    const counts: [string, 'minCount' | 'maxCount'][] = [
+      ['Min count', 'minCount'],
+      ['Max count', 'maxCount'],
+    ];
+    for (const [label, key] of counts) {
+      push('Groups', group, label, a ? formatPlain(a[key]) : null, b ? formatPlain(b[key]) : null);
+    }
+  }
+
+  // Constraints compare as sorted descriptions, their ids never match across setups
+  const describe = (setup: Setup, names: Map<string, string>) => [
+    ...setup.propertyConstraints.map(
+      (c) => `${c.property} between ${formatPlain(c.min)} and ${formatPlain(c.max)}`
+    ),
+    ...setup.ratioConstraints.map((c) => {
+      const label = (side: string) =>
+        c.kind === 'component' ? names.get(side) ?? side : `Group ${side}`;
+      return `${label(c.numerator)} / ${label(c.denominator)} between ${formatPlain(
+        c.min
+      )} and ${formatPlain(c.max)}`;
+    }),
+  ];
+  const leftConstraints = describe(left, leftNames).sort();
+  const rightConstraints = describe(right, rightNames).sort();
+  push(
+    'Constraints',
+    '',
+    'Property and ratio limits',
+    leftConstraints.join('\n') || '—',
+    rightConstraints.join('\n') || '—'
+  );
+  const ruleLines = (setup: Setup) =>
+    setup.rules
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0)
+      .join('\n') || '—';
+  push('Constraints', '', 'Rules', ruleLines(left), ruleLines(right));
+  const objective = (setup: Setup) =>
+    setup.optimization.enabled
+      ? `${setup.optimization.direction === 'min' ? 'Lowest' : 'Highest'} ${
+          setup.optimization.objective
+        }, keep ${formatPlain(setup.optimization.limit)}`
+      : 'Off';
+  push('Constraints', '', 'Optimisation', objective(left), objective(right));
+  return rows;
+};
@@ -0,0 +1,66 @@
+// Setups shared as links: the setup file is deflated and base64url encoded into the URL hash,
+// so it never reaches a server. A leading letter tells how the payload is packed: 'z' for
+// deflate-raw, 'j' for plain JSON where the browser lacks CompressionStream.
+
+import { parseSetup, Setup, SetupParseResult, toSetupFile } from './setupSchema';
+
+const hashPrefix = '#setup=';
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(
+    await new Response(new Blob([bytes as BlobPart]).stream().pipeThrough(transform)).arrayBuffer()
+  );
+
+export const encodeSetupHash = async (setup: Setup) => {
+  const json = new TextEncoder().encode(JSON.stringify(toSetupFile(setup)));
+  if (typeof CompressionStream === 'undefined') return `${hashPrefix}j${toBase64Url(json)}`;
+  const packed = await pipeBytes(json, new CompressionStream('deflate-raw'));
+  return `${hashPrefix}z${toBase64Url(packed)}`;
+};
+
+export const setupLink = async (setup: Setup) => {
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}${await encodeSetupHash(setup)}`;
+};
+
+export const hasSetupHash = (hash: string) => hash.startsWith(hashPrefix);
+
+// Reads the setup carried by a link; schema problems surface as SetupSchemaError like imports
+export const decodeSetupHash = async (hash: string): Promise<SetupParseResult> => {
+  const payload = hash.slice(hashPrefix.length);
+  const kind = payload[0];
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64Url(payload.slice(1));
+  } catch (error) {
+    throw new Error('The link is incomplete or damaged.');
+  }
+  if (kind === 'z') {
+    if (typeof DecompressionStream === 'undefined') {
+      throw new Error('This browser cannot unpack compressed setup links.');
+    }
+    try {
+      bytes = await pipeBytes(bytes, new DecompressionStream('deflate-raw'));
+    } catch (error) {
+      throw new Error('The link is incomplete or damaged.');
+    }
+  } else if (kind !== 'j') {
+    throw new Error('The link does not hold a setup this app can read.');
+  }
+  return parseSetup(new TextDecoder().decode(bytes));
+};
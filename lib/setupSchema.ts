@@ -0,0 +1,486 @@
+// Versioned setup file: what Export Setup writes and what the browser keeps between visits.
+// Older files are migrated step by step to the current version, then every field is checked
+// at runtime; anything missing or malformed is defaulted or dropped and listed in a report
+// instead of leaking into the app state.
+
+export const setupVersion = 1;
+
+type SetupNumber = number | string | null;
+
+// Allowed values used instead of the min / max / step sequence: a list of masses (ratios)
+// or a geometric progression from start to end, optionally with zero for "left out"
+export type SetupLevels =
+  | { mode: 'list'; values: number[] }
+  | {
+      mode: 'geometric';
+      start: SetupNumber;
+      end: SetupNumber;
+      count: SetupNumber;
+      zero: boolean;
+    };
+
+export type SetupComponent = {
+  id: string;
+  name: string;
+  group: string;
+  min: SetupNumber;
+  max: SetupNumber;
+  step: SetupNumber;
+  fixed?: SetupNumber;
+  levels?: SetupLevels;
+  price?: SetupNumber;
+  properties?: Record<string, SetupNumber>;
+  exclusiveSet?: string;
+  requires?: string[];
+  forbids?: string[];
+  balance?: boolean;
+};
+
+export type SetupGroup = {
+  name: string;
+  minMass?: SetupNumber;
+  maxMass?: SetupNumber;
+  fixedMass?: SetupNumber;
+  minCount?: SetupNumber;
+  maxCount?: SetupNumber;
+};
+
+export type SetupPropertyConstraint = {
+  id: string;
+  property: string;
+  min?: SetupNumber;
+  max?: SetupNumber;
+};
+
+export type SetupRatioConstraint = {
+  id: string;
+  kind: 'component' | 'group';
+  numerator: string;
+  denominator: string;
+  min?: SetupNumber;
+  max?: SetupNumber;
+};
+
+export type SetupOptimization = {
+  enabled: boolean;
+  objective: string;
+  direction: 'min' | 'max';
+  limit: SetupNumber;
+};
+
+// Design-of-experiments sampling instead of listing every valid combination: `runs` is the
+// design size of the sampling modes, `degree` the spacing of a simplex lattice
+export type SetupSampling = {
+  mode: 'random' | 'lattice' | 'centroid' | 'lhs' | 'maximin';
+  runs: SetupNumber;
+  seed: SetupNumber;
+  degree: SetupNumber;
+};
+
+export type Setup = {
+  components: SetupComponent[];
+  groupConfigs: Record<string, SetupGroup>;
+  minTotal: SetupNumber;
+  maxTotal: SetupNumber;
+  inputUnit: 'ratio' | 'percent';
+  propertyNames: string[];
+  propertyConstraints: SetupPropertyConstraint[];
+  ratioConstraints: SetupRatioConstraint[];
+  rules: string;
+  optimization: SetupOptimization;
+  sampling: SetupSampling;
+};
+
+export type SetupFile = Setup & { version: number };
+
+export type SetupReportEntry = {
+  // Where the problem is, e.g. components[3].step
+  path: string;
+  action: 'defaulted' | 'dropped' | 'migrated';
+  message: string;
+};
+
+export type SetupParseResult = {
+  setup: Setup;
+  // Version the file was written with, 0 for files from before versioning
+  version: number;
+  report: SetupReportEntry[];
+};
+
+export class SetupSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SetupSchemaError';
+  }
+}
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Migrations from each version to the next, applied in order
+const migrations: Record<number, (file: RawObject, report: SetupReportEntry[]) => RawObject> = {
+  // Unversioned files: group configs could lack their name and steps could be saved as
+  // null or NaN, which only the browser storage path used to patch
+  0: (file, report) => {
+    const groupConfigs = isObject(file.groupConfigs)
+      ? Object.fromEntries(
+          Object.entries(file.groupConfigs).map(([name, cfg]) => [
+            name,
+            isObject(cfg) ? { ...cfg, name } : cfg,
+          ])
+        )
+      : file.groupConfigs;
+    const components = Array.isArray(file.components)
+      ? file.components.map((comp, index) => {
+          if (!isObject(comp)) return comp;
+          const step = comp.step;
+          if (step === null || step === undefined || (typeof step === 'number' && Number.isNaN(step))) {
+            report.push({
+              path: `components[${index}].step`,
+              action: 'migrated',
+              message: 'Missing step set to the default of 0.1',
+            });
+            return { ...comp, step: 0.1 };
+          }
+          return comp;
+        })
+      : file.components;
+    return { ...file, groupConfigs, components, version: 1 };
+  },
+};
+
+export const defaultOptimization: SetupOptimization = {
+  enabled: false,
+  objective: 'cost',
+  direction: 'min',
+  limit: 100,
+};
+
+export const defaultSampling: SetupSampling = {
+  mode: 'lhs',
+  runs: 20,
+  seed: 1,
+  degree: 2,
+};
+
+const samplingModes: SetupSampling['mode'][] = ['random', 'lattice', 'centroid', 'lhs', 'maximin'];
+
+const fallbackId = (() => {
+  let counter = 0;
+  return () => {
+    counter += 1;
+    return `${Math.random().toString(36).substring(2, 9)}${counter}`;
+  };
+})();
+
+// Runtime check of a migrated file; collects what had to be defaulted or dropped
+const validateSetup = (file: RawObject, report: SetupReportEntry[]): Setup => {
+  const defaulted = (path: string, message: string) =>
+    report.push({ path, action: 'defaulted', message });
+  const dropped = (path: string, message: string) =>
+    report.push({ path, action: 'dropped', message });
+
+  // Numbers may be saved as numbers, blanks or the partially typed strings the inputs keep
+  const readNumber = (
+    value: unknown,
+    path: string,
+    fallback: SetupNumber,
+    required: boolean
+  ): SetupNumber => {
+    if (value === undefined || value === null || value === '') {
+      if (required) defaulted(path, `Missing, set to ${fallback ?? 'blank'}`);
+      return required ? fallback : null;
+    }
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    if (typeof value === 'string' && Number.isFinite(Number(value.replace(',', '.')))) {
+      return value;
+    }
+    defaulted(path, `${JSON.stringify(value)} is not a number, set to ${fallback ?? 'blank'}`);
+    return fallback;
+  };
+  const readString = (value: unknown, path: string, fallback: string) => {
+    if (typeof value === 'string') return value;
+    if (value !== undefined) defaulted(path, `Expected text, set to "${fallback}"`);
+    return fallback;
+  };
+
+  const readLevels = (value: unknown, path: string): SetupLevels | null => {
+    if (isObject(value) && value.mode === 'list' && Array.isArray(value.values)) {
+      const values = value.values.filter(
+        (level): level is number => typeof level === 'number' && Number.isFinite(level)
+      );
+      if (values.length !== value.values.length) {
+        dropped(`${path}.values`, 'Levels that are not numbers removed');
+      }
+      if (values.length > 0) return { mode: 'list', values };
+      dropped(path, 'No levels left, the min / max / step range is used');
+      return null;
+    }
+    if (isObject(value) && value.mode === 'geometric') {
+      return {
+        mode: 'geometric',
+        start: readNumber(value.start, `${path}.start`, 0.001, true),
+        end: readNumber(value.end, `${path}.end`, 0.1, true),
+        count: readNumber(value.count, `${path}.count`, 5, true),
+        zero: value.zero === true,
+      };
+    }
+    dropped(path, 'Not a level list or progression, the min / max / step range is used');
+    return null;
+  };
+
+  if (!Array.isArray(file.components) || file.components.length === 0) {
+    throw new SetupSchemaError('The file has no components.');
+  }
+  const components: SetupComponent[] = [];
+  // Raw entry of each kept component, its links are resolved once every id is known
+  const sources: { raw: RawObject; index: number }[] = [];
+  const ids = new Set<string>();
+  file.components.forEach((raw, index) => {
+    const path = `components[${index}]`;
+    if (!isObject(raw)) {
+      dropped(path, 'Not a component');
+      return;
+    }
+    let id = typeof raw.id === 'string' && raw.id !== '' ? raw.id : '';
+    if (id === '' || ids.has(id)) {
+      id = fallbackId();
+      defaulted(`${path}.id`, 'Missing or duplicate id, a new one was assigned');
+    }
+    ids.add(id);
+    const name = readString(raw.name, `${path}.name`, `Component ${index + 1}`);
+    const group = readString(raw.group, `${path}.group`, 'A').trim() || 'A';
+    const step = readNumber(raw.step, `${path}.step`, 0.1, true);
+    const component: SetupComponent = {
+      id,
+      name,
+      group,
+      min: readNumber(raw.min, `${path}.min`, 0, true),
+      max: readNumber(raw.max, `${path}.max`, 1, true),
+      step: typeof step === 'number' && step <= 0 ? 0.1 : step,
+      fixed: readNumber(raw.fixed, `${path}.fixed`, null, false),
+    };
+    if (typeof step === 'number' && step <= 0) {
+      defaulted(`${path}.step`, 'Step must be greater than 0, set to 0.1');
+    }
+    if (raw.levels !== undefined) {
+      const levels = readLevels(raw.levels, `${path}.levels`);
+      if (levels) component.levels = levels;
+    }
+    if (raw.price !== undefined) {
+      component.price = readNumber(raw.price, `${path}.price`, null, false);
+    }
+    if (isObject(raw.properties)) {
+      component.properties = Object.fromEntries(
+        Object.entries(raw.properties).map(([property, value]) => [
+          property,
+          readNumber(value, `${path}.properties.${property}`, null, false),
+        ])
+      );
+    } else if (raw.properties !== undefined) {
+      dropped(`${path}.properties`, 'Not a property table');
+    }
+    if (typeof raw.exclusiveSet === 'string' && raw.exclusiveSet !== '') {
+      component.exclusiveSet = raw.exclusiveSet;
+    }
+    if (raw.balance === true) component.balance = true;
+    components.push(component);
+    sources.push({ raw, index });
+  });
+  if (components.length === 0) {
+    throw new SetupSchemaError('None of the components in the file could be read.');
+  }
+  let balanceSeen = false;
+  components.forEach((component, position) => {
+    const { raw, index } = sources[position];
+    for (const field of ['requires', 'forbids'] as const) {
+      const value = raw[field];
+      if (value === undefined) continue;
+      const list = Array.isArray(value) ? value : [];
+      const known = list.filter(
+        (id): id is string => typeof id === 'string' && ids.has(id) && id !== component.id
+      );
+      if (!Array.isArray(value) || known.length !== list.length) {
+        dropped(`components[${index}].${field}`, 'References to unknown components removed');
+      }
+      component[field] = known;
+    }
+    if (component.balance) {
+      if (balanceSeen) {
+        delete component.balance;
+        dropped(`components[${index}].balance`, 'Only one component can be the balance');
+      }
+      balanceSeen = true;
+    }
+  });
+
+  const groupNames = new Set(components.map((component) => component.group));
+  const groupConfigs: Record<string, SetupGroup> = {};
+  if (file.groupConfigs !== undefined && !isObject(file.groupConfigs)) {
+    dropped('groupConfigs', 'Not a group table');
+  }
+  for (const [name, raw] of Object.entries(isObject(file.groupConfigs) ? file.groupConfigs : {})) {
+    const path = `groupConfigs.${name}`;
+    if (!groupNames.has(name)) {
+      dropped(path, 'No component uses this group');
+      continue;
+    }
+    if (!isObject(raw)) {
+      dropped(path, 'Not a group');
+      continue;
+    }
+    groupConfigs[name] = {
+      name,
+      minMass: readNumber(raw.minMass, `${path}.minMass`, null, false),
+      maxMass: readNumber(raw.maxMass, `${path}.maxMass`, null, false),
+      fixedMass: readNumber(raw.fixedMass, `${path}.fixedMass`, null, false),
+      minCount: readNumber(raw.minCount, `${path}.minCount`, null, false),
+      maxCount: readNumber(raw.maxCount, `${path}.maxCount`, null, false),
+    };
+  }
+
+  let inputUnit: 'ratio' | 'percent' = 'percent';
+  if (file.inputUnit === 'ratio' || file.inputUnit === 'percent') {
+    inputUnit = file.inputUnit;
+  } else {
+    defaulted('inputUnit', 'Missing or unknown unit, set to percent');
+  }
+
+  const propertyNames: string[] = [];
+  if (Array.isArray(file.propertyNames)) {
+    file.propertyNames.forEach((name, index) => {
+      if (typeof name !== 'string' || name.trim() === '' || propertyNames.includes(name)) {
+        dropped(`propertyNames[${index}]`, 'Empty or duplicate property name');
+      } else {
+        propertyNames.push(name);
+      }
+    });
+  } else if (file.propertyNames !== undefined) {
+    dropped('propertyNames', 'Not a list of names');
+  }
+
+  const propertyConstraints: SetupPropertyConstraint[] = [];
+  (Array.isArray(file.propertyConstraints) ? file.propertyConstraints : []).forEach(
+    (raw, index) => {
+      const path = `propertyConstraints[${index}]`;
+      if (!isObject(raw) || typeof raw.property !== 'string' || !propertyNames.includes(raw.property)) {
+        dropped(path, 'Refers to a property that does not exist');
+        return;
+      }
+      propertyConstraints.push({
+        id: typeof raw.id === 'string' && raw.id !== '' ? raw.id : fallbackId(),
+        property: raw.property,
+        min: readNumber(raw.min, `${path}.min`, null, false),
+        max: readNumber(raw.max, `${path}.max`, null, false),
+      });
+    }
+  );
+
+  const ratioConstraints: SetupRatioConstraint[] = [];
+  (Array.isArray(file.ratioConstraints) ? file.ratioConstraints : []).forEach((raw, index) => {
+    const path = `ratioConstraints[${index}]`;
+    if (!isObject(raw) || (raw.kind !== 'component' && raw.kind !== 'group')) {
+      dropped(path, 'Not a component or group ratio');
+      return;
+    }
+    const known = raw.kind === 'component' ? ids : groupNames;
+    if (
+      typeof raw.numerator !== 'string' ||
+      typeof raw.denominator !== 'string' ||
+      !known.has(raw.numerator) ||
+      !known.has(raw.denominator)
+    ) {
+      dropped(path, `Refers to a ${raw.kind} that does not exist`);
+      return;
+    }
+    ratioConstraints.push({
+      id: typeof raw.id === 'string' && raw.id !== '' ? raw.id : fallbackId(),
+      kind: raw.kind,
+      numerator: raw.numerator,
+      denominator: raw.denominator,
+      min: readNumber(raw.min, `${path}.min`, null, false),
+      max: readNumber(raw.max, `${path}.max`, null, false),
+    });
+  });
+
+  const optimization: SetupOptimization = { ...defaultOptimization };
+  if (isObject(file.optimization)) {
+    const raw = file.optimization;
+    optimization.enabled = raw.enabled === true;
+    optimization.objective = readString(raw.objective, 'optimization.objective', 'cost');
+    if (optimization.objective !== 'cost' && !propertyNames.includes(optimization.objective)) {
+      defaulted('optimization.objective', 'Unknown objective, set to cost');
+      optimization.objective = 'cost';
+    }
+    if (raw.direction === 'min' || raw.direction === 'max') {
+      optimization.direction = raw.direction;
+    } else if (raw.direction !== undefined) {
+      defaulted('optimization.direction', 'Unknown direction, set to min');
+    }
+    optimization.limit = readNumber(raw.limit, 'optimization.limit', 100, true);
+  } else if (file.optimization !== undefined) {
+    dropped('optimization', 'Not an optimization setting');
+  }
+
+  const sampling: SetupSampling = { ...defaultSampling };
+  if (isObject(file.sampling)) {
+    const raw = file.sampling;
+    if (samplingModes.includes(raw.mode as SetupSampling['mode'])) {
+      sampling.mode = raw.mode as SetupSampling['mode'];
+    } else {
+      defaulted('sampling.mode', 'Unknown sampling mode, set to Latin hypercube');
+    }
+    sampling.runs = readNumber(raw.runs, 'sampling.runs', defaultSampling.runs, true);
+    sampling.seed = readNumber(raw.seed, 'sampling.seed', defaultSampling.seed, true);
+    sampling.degree = readNumber(raw.degree, 'sampling.degree', defaultSampling.degree, true);
+  } else if (file.sampling !== undefined) {
+    dropped('sampling', 'Not a sampling setting');
+  }
+
+  return {
+    components,
+    groupConfigs,
+    // A cleared total is kept blank, only a missing one falls back to the default
+    minTotal: readNumber(file.minTotal, 'minTotal', 0.99, file.minTotal === undefined),
+    maxTotal: readNumber(file.maxTotal, 'maxTotal', 1.01, file.maxTotal === undefined),
+    inputUnit,
+    propertyNames,
+    propertyConstraints,
+    ratioConstraints,
+    rules: readString(file.rules, 'rules', ''),
+    optimization,
+    sampling,
+  };
+};
+
+export const toSetupFile = (setup: Setup): SetupFile => ({ version: setupVersion, ...setup });
+
+// Parses setup JSON of any known version; throws SetupSchemaError when nothing usable is left
+export const parseSetup = (json: string): SetupParseResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new SetupSchemaError('The file is not valid JSON.');
+  }
+  if (!isObject(parsed)) {
+    throw new SetupSchemaError('The file does not contain a setup.');
+  }
+  const version = parsed.version === undefined ? 0 : parsed.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new SetupSchemaError(`Unknown setup version ${JSON.stringify(parsed.version)}.`);
+  }
+  if (version > setupVersion) {
+    throw new SetupSchemaError(
+      `The file was written by a newer version of the app (setup version ${version}).`
+    );
+  }
+  const report: SetupReportEntry[] = [];
+  let file = parsed;
+  for (let from = version; from < setupVersion; from += 1) {
+    file = migrations[from](file, report);
+  }
+  return { setup: validateSetup(file, report), version, report };
+};
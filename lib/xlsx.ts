@@ -0,0 +1,316 @@
+// Minimal XLSX support. Writing: inline-string worksheets zipped with deflate-raw where the
+// runtime offers CompressionStream, stored otherwise, with no shared strings, formulas or
+// column widths. Reading: the cell text of the first worksheet, enough for imports.
+
+export type Cell = string | number | null;
+
+export type WorkbookSheet = {
+  name: string;
+  rows: Iterable<Cell[]>;
+  // Rows at the top drawn bold and kept in view while scrolling
+  headerRows?: number;
+};
+
+// Excel's row limit, header included
+export const maxSheetRows = 1048576;
+
+const encoder = new TextEncoder();
+
+const crcTable = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const updateCrc = (crc: number, bytes: Uint8Array) => {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < bytes.length; i += 1) {
+    c = crcTable[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+const escapeXml = (value: string) =>
+  value
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const columnName = (index: number) => {
+  let name = '';
+  let n = index + 1;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    name = String.fromCharCode(65 + rem) + name;
+    n = Math.floor((n - 1) / 26);
+  }
+  return name;
+};
+
+const cellXml = (cell: Cell, ref: string, style: string) => {
+  if (cell === null || cell === '') return '';
+  if (typeof cell === 'number') {
+    return Number.isFinite(cell) ? `<c r="${ref}"${style}><v>${cell}</v></c>` : '';
+  }
+  return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+};
+
+// Sheet XML in chunks of a few thousand rows so large results never become one string
+const sheetParts = (sheet: WorkbookSheet) => {
+  const parts: Uint8Array[] = [];
+  const headerRows = sheet.headerRows ?? 0;
+  const frozen =
+    headerRows > 0
+      ? `<sheetViews><sheetView workbookViewId="0"><pane ySplit="${headerRows}" topLeftCell="A${headerRows + 1}" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>`
+      : '';
+  let chunk = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">${frozen}<sheetData>`;
+  let rowNumber = 0;
+  for (const row of sheet.rows) {
+    if (rowNumber >= maxSheetRows) break;
+    rowNumber += 1;
+    const style = rowNumber <= headerRows ? ' s="1"' : '';
+    chunk += `<row r="${rowNumber}">`;
+    row.forEach((cell, index) => {
+      chunk += cellXml(cell, `${columnName(index)}${rowNumber}`, style);
+    });
+    chunk += '</row>';
+    if (rowNumber % 2000 === 0) {
+      parts.push(encoder.encode(chunk));
+      chunk = '';
+    }
+  }
+  chunk += '</sheetData></worksheet>';
+  parts.push(encoder.encode(chunk));
+  return parts;
+};
+
+const stylesXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`;
+
+type ZipEntry = {
+  name: Uint8Array;
+  method: number;
+  crc: number;
+  size: number;
+  data: Blob;
+  offset: number;
+};
+
+const deflate = async (parts: Uint8Array[]) => {
+  if (typeof CompressionStream === 'undefined') return null;
+  const stream = new Blob(parts as BlobPart[])
+    .stream()
+    .pipeThrough(new CompressionStream('deflate-raw'));
+  return new Response(stream).blob();
+};
+
+// Sizes above 4 GB would need Zip64, far beyond what a worksheet row limit allows
+const writeZip = async (files: { name: string; parts: Uint8Array[] }[]) => {
+  const output: BlobPart[] = [];
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+  for (const file of files) {
+    const size = file.parts.reduce((acc, part) => acc + part.length, 0);
+    const crc = file.parts.reduce((acc, part) => updateCrc(acc, part), 0);
+    const compressed = await deflate(file.parts);
+    const entry: ZipEntry = {
+      name: encoder.encode(file.name),
+      method: compressed ? 8 : 0,
+      crc,
+      size,
+      data: compressed ?? new Blob(file.parts as BlobPart[]),
+      offset,
+    };
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 0x0800, true);
+    header.setUint16(8, entry.method, true);
+    header.setUint16(12, 0x21, true);
+    header.setUint32(14, entry.crc, true);
+    header.setUint32(18, entry.data.size, true);
+    header.setUint32(22, entry.size, true);
+    header.setUint16(26, entry.name.length, true);
+    output.push(header.buffer, entry.name as BlobPart, entry.data);
+    offset += 30 + entry.name.length + entry.data.size;
+    entries.push(entry);
+  }
+  const directoryOffset = offset;
+  for (const entry of entries) {
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, 0x0800, true);
+    header.setUint16(10, entry.method, true);
+    header.setUint16(14, 0x21, true);
+    header.setUint32(16, entry.crc, true);
+    header.setUint32(20, entry.data.size, true);
+    header.setUint32(24, entry.size, true);
+    header.setUint16(28, entry.name.length, true);
+    header.setUint32(42, entry.offset, true);
+    output.push(header.buffer, entry.name as BlobPart);
+    offset += 46 + entry.name.length;
+  }
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, offset - directoryOffset, true);
+  end.setUint32(16, directoryOffset, true);
+  output.push(end.buffer);
+  return new Blob(output, {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+};
+
+export const buildWorkbook = (sheets: WorkbookSheet[]) => {
+  const xml = (value: string) => [encoder.encode(value)];
+  const header = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+  const sheetEntries = sheets.map((sheet, index) => ({
+    name: `xl/worksheets/sheet${index + 1}.xml`,
+    parts: sheetParts(sheet),
+  }));
+  return writeZip([
+    {
+      name: '[Content_Types].xml',
+      parts: xml(
+        `${header}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${sheets
+          .map(
+            (_, index) =>
+              `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+          )
+          .join('')}</Types>`
+      ),
+    },
+    {
+      name: '_rels/.rels',
+      parts: xml(
+        `${header}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`
+      ),
+    },
+    {
+      name: 'xl/workbook.xml',
+      parts: xml(
+        `${header}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${sheets
+          .map(
+            (sheet, index) =>
+              `<sheet name="${escapeXml(sheet.name.slice(0, 31))}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+          )
+          .join('')}</sheets></workbook>`
+      ),
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      parts: xml(
+        `${header}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheets
+          .map(
+            (_, index) =>
+              `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+          )
+          .join('')}<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`
+      ),
+    },
+    { name: 'xl/styles.xml', parts: xml(stylesXml) },
+    ...sheetEntries,
+  ]);
+};
+
+const readZipEntries = async (data: ArrayBuffer) => {
+  const view = new DataView(data);
+  let end = data.byteLength - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end -= 1;
+  if (end < 0) throw new Error('Not a valid XLSX file.');
+  const count = view.getUint16(end + 10, true);
+  let at = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, () => Promise<string>>();
+  for (let i = 0; i < count; i += 1) {
+    const method = view.getUint16(at + 10, true);
+    const compressedSize = view.getUint32(at + 20, true);
+    const nameLength = view.getUint16(at + 28, true);
+    const extraLength = view.getUint16(at + 30, true);
+    const commentLength = view.getUint16(at + 32, true);
+    const localOffset = view.getUint32(at + 42, true);
+    const name = decoder.decode(new Uint8Array(data, at + 46, nameLength));
+    // The local header repeats the name and may carry a different extra field
+    const dataStart =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    const bytes = new Uint8Array(data, dataStart, compressedSize);
+    entries.set(name, async () => {
+      if (method === 0) return decoder.decode(bytes);
+      if (method !== 8 || typeof DecompressionStream === 'undefined') {
+        throw new Error('This XLSX file uses a compression the browser cannot read.');
+      }
+      const stream = new Blob([bytes as BlobPart])
+        .stream()
+        .pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Response(stream).text();
+    });
+    at += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const columnIndex = (ref: string) => {
+  let index = 0;
+  for (const char of ref.replace(/\d+$/, '')) index = index * 26 + (char.charCodeAt(0) - 64);
+  return index - 1;
+};
+
+// Cell text of the first worksheet, with shared strings resolved and empty cells as ''
+export const readFirstSheet = async (data: ArrayBuffer): Promise<string[][]> => {
+  const entries = await readZipEntries(data);
+  const parser = new DOMParser();
+  const parse = async (name: string) => {
+    const read = entries.get(name);
+    return read ? parser.parseFromString(await read(), 'application/xml') : null;
+  };
+  const workbook = await parse('xl/workbook.xml');
+  const relations = await parse('xl/_rels/workbook.xml.rels');
+  const firstSheetId = workbook?.getElementsByTagName('sheet')[0]?.getAttribute('r:id');
+  const target = Array.from(relations?.getElementsByTagName('Relationship') ?? []).find(
+    (relation) => relation.getAttribute('Id') === firstSheetId
+  )?.getAttribute('Target');
+  const sheetPath = target
+    ? target.startsWith('/')
+      ? target.slice(1)
+      : `xl/${target}`
+    : 'xl/worksheets/sheet1.xml';
+  const sheet = await parse(sheetPath);
+  if (!sheet) throw new Error('The workbook has no worksheet.');
+  const sharedStrings = Array.from(
+    (await parse('xl/sharedStrings.xml'))?.getElementsByTagName('si') ?? []
+  ).map((item) => item.textContent ?? '');
+  const rows: string[][] = [];
+  for (const row of Array.from(sheet.getElementsByTagName('row'))) {
+    const rowNumber = Number(row.getAttribute('r') ?? rows.length + 1);
+    const cells: string[] = [];
+    Array.from(row.getElementsByTagName('c')).forEach((cell, position) => {
+      const ref = cell.getAttribute('r');
+      const index = ref ? columnIndex(ref) : position;
+      const type = cell.getAttribute('t');
+      const value = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+      let text = value;
+      if (type === 's') text = sharedStrings[Number(value)] ?? '';
+      else if (type === 'inlineStr') text = cell.getElementsByTagName('is')[0]?.textContent ?? '';
+      while (cells.length < index) cells.push('');
+      cells[index] = text;
+    });
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows[rowNumber - 1] = cells;
+  }
+  return rows;
+};